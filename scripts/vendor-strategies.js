@@ -0,0 +1,50 @@
+#!/usr/bin/env node
+
+import fs from 'fs';
+import path from 'path';
+import { createHash } from 'crypto';
+
+/**
+ * Script to download the strategy sources listed in the manifest, bundle them and pin their hashes
+ *
+ * Run by hand when adding a source or moving to a new commit, never as part of the build. Whatever
+ * the remote serves becomes the pinned value, so review the downloaded files and the manifest
+ * diff before committing them.
+ */
+
+const sourcesDir = './src/lib/strategies/sources';
+const manifestPath = path.join(sourcesDir, 'manifest.json');
+
+function hashContent(content) {
+	return createHash('sha256').update(content, 'utf8').digest('hex');
+}
+
+async function vendorSources() {
+	const manifest = JSON.parse(fs.readFileSync(manifestPath, 'utf8'));
+
+	for (const [url, entry] of Object.entries(manifest)) {
+		const response = await fetch(url);
+		if (!response.ok) {
+			throw new Error(`Failed to download ${url} (${response.status})`);
+		}
+
+		const content = await response.text();
+		const sha256 = hashContent(content);
+
+		if (entry.sha256 && entry.sha256 !== sha256) {
+			console.warn(`⚠️  ${entry.file} changed: ${entry.sha256} -> ${sha256}`);
+		}
+
+		fs.writeFileSync(path.join(sourcesDir, entry.file), content);
+		manifest[url] = { ...entry, sha256 };
+		console.log(`✅ ${entry.file} ${sha256}`);
+	}
+
+	fs.writeFileSync(manifestPath, `${JSON.stringify(manifest, null, '\t')}\n`);
+	console.log('Review the downloaded sources and the manifest diff before committing them.');
+}
+
+vendorSources().catch((error) => {
+	console.error('❌ Vendoring strategy sources failed:', error.message);
+	process.exit(1);
+});
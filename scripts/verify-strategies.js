@@ -0,0 +1,50 @@
+#!/usr/bin/env node
+
+import fs from 'fs';
+import path from 'path';
+import { createHash } from 'crypto';
+
+/**
+ * Script to check the bundled strategy sources against the hashes pinned in the manifest
+ *
+ * Runs before every build without network access and writes nothing. A source that is missing,
+ * unpinned or doesn't match its pin fails the build. Re-pinning is a manual step, see
+ * `vendor-strategies.js`.
+ */
+
+const sourcesDir = './src/lib/strategies/sources';
+const manifestPath = path.join(sourcesDir, 'manifest.json');
+
+function hashContent(content) {
+	return createHash('sha256').update(content, 'utf8').digest('hex');
+}
+
+function verifySources() {
+	const manifest = JSON.parse(fs.readFileSync(manifestPath, 'utf8'));
+	const problems = [];
+
+	for (const [url, entry] of Object.entries(manifest)) {
+		const filePath = path.join(sourcesDir, entry.file);
+
+		if (!entry.sha256) {
+			problems.push(`${entry.file} has no pinned hash (${url})`);
+		} else if (!fs.existsSync(filePath)) {
+			problems.push(`${entry.file} is pinned but not bundled`);
+		} else {
+			const sha256 = hashContent(fs.readFileSync(filePath, 'utf8'));
+			if (sha256 !== entry.sha256) {
+				problems.push(`${entry.file} does not match its pinned hash: ${entry.sha256} -> ${sha256}`);
+			} else {
+				console.log(`✅ ${entry.file} ${sha256}`);
+			}
+		}
+	}
+
+	if (problems.length > 0) {
+		problems.forEach((problem) => console.error(`❌ ${problem}`));
+		console.error('Run `npm run strategies:vendor` and review the diff before committing.');
+		process.exit(1);
+	}
+}
+
+verifySources();
@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import { runGridBacktest } from './backtest';
+import type { OhlcCandle } from './ohlc';
+import type { GridLevel } from '$lib/strategies';
+
+const HOUR = 3600 * 1000;
+
+const levels: GridLevel[] = [
+	{ level: 1, side: 'sell', price: 1, amount: 10, total: 10 },
+	{ level: 2, side: 'sell', price: 2, amount: 10, total: 20 },
+	{ level: 3, side: 'sell', price: 3, amount: 10, total: 30 }
+];
+
+function candle(hour: number, high: number, close = high): OhlcCandle {
+	return { timestamp: hour * HOUR, open: close, high, low: Math.min(close, high) / 2, close };
+}
+
+describe('runGridBacktest', () => {
+	it('should fill every level the price reaches', () => {
+		const result = runGridBacktest(levels, [candle(0, 0.5), candle(1, 2.1)], {
+			secondsPerTranche: 0
+		});
+
+		expect(result.fills.map((fill) => fill.level)).toEqual([1, 2]);
+		expect(result.totalProceeds).toBe(30);
+		expect(result.totalSold).toBe(20);
+		expect(result.remainingInventory).toBe(10);
+		expect(result.timeline.map((point) => point.fills)).toEqual([0, 2]);
+	});
+
+	it('should not refill levels when seconds-per-tranche is zero', () => {
+		const result = runGridBacktest(levels, [candle(0, 1.5), candle(1, 1.5), candle(2, 1.5)], {
+			secondsPerTranche: 0
+		});
+
+		expect(result.fills).toHaveLength(1);
+		expect(result.totalProceeds).toBe(10);
+	});
+
+	it('should refill levels after seconds-per-tranche', () => {
+		const result = runGridBacktest(
+			levels,
+			[candle(0, 1.5), candle(1, 1.5), candle(2, 1.5), candle(3, 1.5)],
+			{ secondsPerTranche: 7200, initialInventory: 100 }
+		);
+
+		expect(result.fills.map((fill) => fill.timestamp)).toEqual([0, 2 * HOUR]);
+		expect(result.totalSold).toBe(20);
+		expect(result.remainingInventory).toBe(80);
+	});
+
+	it('should stop selling when the inventory runs out', () => {
+		const result = runGridBacktest(levels, [candle(0, 5)], {
+			secondsPerTranche: 0,
+			initialInventory: 15
+		});
+
+		expect(result.fills.map((fill) => fill.amount)).toEqual([10, 5]);
+		expect(result.totalProceeds).toBe(10 + 5 * 2);
+		expect(result.remainingInventory).toBe(0);
+	});
+
+	it('should default the inventory to the sum of level amounts', () => {
+		const result = runGridBacktest(levels, [], { secondsPerTranche: 0 });
+
+		expect(result.initialInventory).toBe(30);
+		expect(result.timeline).toEqual([]);
+		expect(result.remainingInventory).toBe(30);
+	});
+
+	it('should track cumulative proceeds and inventory per candle', () => {
+		const result = runGridBacktest(levels, [candle(0, 1), candle(1, 3, 2.5)], {
+			secondsPerTranche: 0
+		});
+
+		expect(result.timeline).toEqual([
+			{ timestamp: 0, close: 1, cumulativeProceeds: 10, inventory: 20, fills: 1 },
+			{ timestamp: HOUR, close: 2.5, cumulativeProceeds: 60, inventory: 0, fills: 2 }
+		]);
+	});
+});
@@ -0,0 +1,119 @@
+import type { GridLevel } from '$lib/strategies';
+import type { OhlcCandle } from './ohlc';
+
+/**
+ * A grid level selling its tranche during the replay
+ */
+export interface BacktestFill {
+	timestamp: number;
+	level: number;
+	price: number;
+	/** Output token sold */
+	amount: number;
+	/** Input token received */
+	proceeds: number;
+}
+
+/**
+ * State of the grid at the close of each candle
+ */
+export interface BacktestPoint {
+	timestamp: number;
+	close: number;
+	/** Input token received up to and including this candle */
+	cumulativeProceeds: number;
+	/** Output token left to sell */
+	inventory: number;
+	/** Number of fills within this candle */
+	fills: number;
+}
+
+export interface BacktestOptions {
+	/** Seconds before a filled level can sell again; 0 disables refills */
+	secondsPerTranche: number;
+	/** Output token available to sell; defaults to the sum of all level amounts */
+	initialInventory?: number;
+}
+
+export interface BacktestResult {
+	fills: BacktestFill[];
+	timeline: BacktestPoint[];
+	initialInventory: number;
+	/** Total input token received */
+	totalProceeds: number;
+	/** Total output token sold */
+	totalSold: number;
+	/** Output token left at the end of the series */
+	remainingInventory: number;
+}
+
+/**
+ * Replay a price series against grid levels
+ *
+ * A level sells its tranche once a candle's high reaches the level price. After a fill the level
+ * is empty until `secondsPerTranche` has passed, then it can sell again. Fills stop once the
+ * inventory runs out.
+ * @param levels - Grid levels from `calculateGridLevels`
+ * @param candles - Candles sorted by timestamp
+ * @param options - Refill delay and starting inventory
+ * @returns Fills, per-candle timeline and final totals
+ */
+export function runGridBacktest(
+	levels: GridLevel[],
+	candles: OhlcCandle[],
+	options: BacktestOptions
+): BacktestResult {
+	const sortedLevels = [...levels].sort((a, b) => a.price - b.price);
+	const initialInventory =
+		options.initialInventory ?? levels.reduce((sum, level) => sum + level.amount, 0);
+	const refillMs = Math.max(0, options.secondsPerTranche) * 1000;
+	const availableAt = sortedLevels.map(() => -Infinity);
+
+	const fills: BacktestFill[] = [];
+	const timeline: BacktestPoint[] = [];
+	let inventory = initialInventory;
+	let totalProceeds = 0;
+
+	for (const candle of candles) {
+		let candleFills = 0;
+
+		sortedLevels.forEach((level, index) => {
+			if (inventory <= 0 || candle.high < level.price || candle.timestamp < availableAt[index]) {
+				return;
+			}
+
+			const amount = Math.min(level.amount, inventory);
+			const proceeds = amount * level.price;
+
+			inventory -= amount;
+			totalProceeds += proceeds;
+			candleFills++;
+			availableAt[index] = refillMs > 0 ? candle.timestamp + refillMs : Infinity;
+
+			fills.push({
+				timestamp: candle.timestamp,
+				level: level.level,
+				price: level.price,
+				amount,
+				proceeds
+			});
+		});
+
+		timeline.push({
+			timestamp: candle.timestamp,
+			close: candle.close,
+			cumulativeProceeds: totalProceeds,
+			inventory,
+			fills: candleFills
+		});
+	}
+
+	return {
+		fills,
+		timeline,
+		initialInventory,
+		totalProceeds,
+		totalSold: initialInventory - inventory,
+		remainingInventory: inventory
+	};
+}
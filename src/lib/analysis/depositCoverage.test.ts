@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import { analyzeDepositCoverage, describeDepositCoverage } from './depositCoverage';
+import type { GridLevel } from '$lib/strategies';
+
+const ONE = 10n ** 6n;
+
+function level(index: number, side: 'buy' | 'sell', amount: number, total: number): GridLevel {
+	return {
+		level: index,
+		side,
+		price: total / amount,
+		amount,
+		total,
+		exact: { price: 0n, amount: BigInt(amount) * ONE, total: BigInt(total) * ONE }
+	};
+}
+
+const levels: GridLevel[] = [
+	level(-2, 'buy', 40, 20),
+	level(-1, 'buy', 30, 25),
+	level(1, 'sell', 100, 100),
+	level(2, 'sell', 150, 165),
+	level(3, 'sell', 200, 242)
+];
+
+describe('analyzeDepositCoverage', () => {
+	it('should count the sell levels a deposit funds from the baseline out', () => {
+		expect(analyzeDepositCoverage(levels, '300', 6)).toEqual({
+			side: 'sell',
+			levelCount: 3,
+			fundedLevels: 2,
+			deposit: '300',
+			required: '450',
+			firstLevelRequired: '100',
+			leftover: '50',
+			shortfall: '150',
+			firstTrancheUnfunded: false
+		});
+	});
+
+	it('should report a deposit covering every level with its leftover', () => {
+		const coverage = analyzeDepositCoverage(levels, '500.5', 6);
+
+		expect(coverage.fundedLevels).toBe(3);
+		expect(coverage.leftover).toBe('50.5');
+		expect(coverage.shortfall).toBe('0');
+	});
+
+	it('should flag a deposit that cannot fill the first tranche', () => {
+		expect(analyzeDepositCoverage(levels, '99.999999', 6).firstTrancheUnfunded).toBe(true);
+		expect(analyzeDepositCoverage(levels, '', 6)).toMatchObject({
+			fundedLevels: 0,
+			deposit: '0',
+			firstTrancheUnfunded: true
+		});
+	});
+
+	it('should fund buy levels with their input token totals, nearest the baseline first', () => {
+		const coverage = analyzeDepositCoverage(levels, '30', 6, 'buy');
+
+		expect(coverage.levelCount).toBe(2);
+		expect(coverage.fundedLevels).toBe(1);
+		expect(coverage.required).toBe('45');
+		expect(coverage.leftover).toBe('5');
+	});
+
+	it('should not flag a side without levels', () => {
+		const coverage = analyzeDepositCoverage(levels.slice(2), '', 6, 'buy');
+
+		expect(coverage.levelCount).toBe(0);
+		expect(coverage.firstTrancheUnfunded).toBe(false);
+	});
+});
+
+describe('describeDepositCoverage', () => {
+	it('should summarise each coverage state', () => {
+		expect(describeDepositCoverage(analyzeDepositCoverage(levels, '', 6))).toBe(
+			'No deposit entered, the first sell level needs 100'
+		);
+		expect(describeDepositCoverage(analyzeDepositCoverage(levels, '50', 6))).toBe(
+			"Deposit of 50 can't fill the first sell level, which needs 100"
+		);
+		expect(describeDepositCoverage(analyzeDepositCoverage(levels, '300', 6))).toBe(
+			'Deposit funds 2 of 3 sell levels with 50 left over, add 150 to fund them all'
+		);
+		expect(describeDepositCoverage(analyzeDepositCoverage(levels, '450', 6))).toBe(
+			'Deposit funds all 3 sell levels with 0 left over'
+		);
+	});
+});
@@ -0,0 +1,91 @@
+import type { GridLevel, GridSide } from '$lib/strategies';
+import { toFixedPoint, fromFixedPoint } from '$lib/utils/decimal';
+
+/**
+ * How far a deposit goes across the levels of one side of a grid
+ *
+ * Amounts are exact decimal strings of the deposited token: the output token for sell levels
+ * and the input token for buy levels.
+ */
+export interface DepositCoverage {
+	side: GridSide;
+	/** Levels on this side */
+	levelCount: number;
+	/** Levels the deposit pays for in full, counted from the baseline out */
+	fundedLevels: number;
+	deposit: string;
+	/** Deposit needed to fund every level */
+	required: string;
+	/** Deposit needed to fund the level nearest the baseline */
+	firstLevelRequired: string;
+	/** Deposit left over after the funded levels */
+	leftover: string;
+	/** Deposit still missing to fund every level */
+	shortfall: string;
+	/** True when the deposit can't fill even the level nearest the baseline */
+	firstTrancheUnfunded: boolean;
+}
+
+/**
+ * Count how many levels a deposit funds, filling levels from the baseline outwards
+ *
+ * Sell levels spend their output token amount and buy levels their input token total, so the
+ * deposit and `decimals` must be those of the token the side spends.
+ * @param levels - Grid levels, levels on the other side are ignored
+ * @param deposit - Deposit as entered, blank counts as nothing deposited
+ * @param decimals - Decimals of the deposited token
+ * @param side - Side of the grid the deposit funds
+ */
+export function analyzeDepositCoverage(
+	levels: GridLevel[],
+	deposit: string,
+	decimals: number,
+	side: GridSide = 'sell'
+): DepositCoverage {
+	const costs = levels
+		.filter((level) => level.side === side)
+		.sort((a, b) => Math.abs(a.level) - Math.abs(b.level))
+		.map((level) => (side === 'sell' ? level.exact?.amount : level.exact?.total) ?? 0n);
+
+	const depositAmount = toFixedPoint(deposit || '0', decimals) ?? 0n;
+	const required = costs.reduce((sum, cost) => sum + cost, 0n);
+
+	let remaining = depositAmount;
+	let fundedLevels = 0;
+	for (const cost of costs) {
+		if (cost > remaining) break;
+		remaining -= cost;
+		fundedLevels++;
+	}
+
+	return {
+		side,
+		levelCount: costs.length,
+		fundedLevels,
+		deposit: fromFixedPoint(depositAmount, decimals),
+		required: fromFixedPoint(required, decimals),
+		firstLevelRequired: fromFixedPoint(costs[0] ?? 0n, decimals),
+		leftover: fromFixedPoint(remaining, decimals),
+		shortfall: fromFixedPoint(required > depositAmount ? required - depositAmount : 0n, decimals),
+		firstTrancheUnfunded: costs.length > 0 && fundedLevels === 0
+	};
+}
+
+/**
+ * One line summary of a deposit's coverage, for checklists and cards
+ */
+export function describeDepositCoverage(coverage: DepositCoverage): string {
+	const { side, levelCount, fundedLevels, deposit, leftover, shortfall } = coverage;
+
+	if (coverage.firstTrancheUnfunded) {
+		return Number(deposit) === 0
+			? `No deposit entered, the first ${side} level needs ${coverage.firstLevelRequired}`
+			: `Deposit of ${deposit} can't fill the first ${side} level, which needs ${coverage.firstLevelRequired}`;
+	}
+
+	if (fundedLevels < levelCount) {
+		return `Deposit funds ${fundedLevels} of ${levelCount} ${side} levels with ${leftover} left over, add ${shortfall} to fund them all`;
+	}
+
+	return `Deposit funds all ${levelCount} ${side} levels with ${leftover} left over`;
+}
@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { calculateGridMetrics, compareWithHodl } from './metrics';
+import type { GridLevel } from '$lib/strategies';
+
+const sellLevels: GridLevel[] = [
+	{ level: 2, side: 'sell', price: 2, amount: 30, total: 60 },
+	{ level: 1, side: 'sell', price: 1, amount: 10, total: 10 }
+];
+
+describe('calculateGridMetrics', () => {
+	it('should weight the average sell price by the amount sold at each level', () => {
+		const metrics = calculateGridMetrics(sellLevels);
+
+		expect(metrics.totalSold).toBe(40);
+		expect(metrics.totalReceived).toBe(70);
+		expect(metrics.averageSellPrice).toBe(1.75);
+		expect(metrics.breakEvenPrice).toBe(1.75);
+	});
+
+	it('should list what each level receives from the lowest price up', () => {
+		const metrics = calculateGridMetrics(sellLevels);
+
+		expect(metrics.receipts).toEqual([
+			{ level: 1, price: 1, amount: 10, received: 10, cumulativeReceived: 10 },
+			{ level: 2, price: 2, amount: 30, received: 60, cumulativeReceived: 70 }
+		]);
+	});
+
+	it('should net buy levels out of the break-even price', () => {
+		const metrics = calculateGridMetrics([
+			...sellLevels,
+			{ level: -1, side: 'buy', price: 0.5, amount: 20, total: 10 }
+		]);
+
+		expect(metrics.totalBought).toBe(20);
+		expect(metrics.totalSpent).toBe(10);
+		expect(metrics.averageSellPrice).toBe(1.75);
+		expect(metrics.breakEvenPrice).toBe(3);
+	});
+
+	it('should leave prices empty when nothing is sold', () => {
+		const metrics = calculateGridMetrics([]);
+
+		expect(metrics.averageSellPrice).toBeNull();
+		expect(metrics.breakEvenPrice).toBeNull();
+		expect(metrics.receipts).toEqual([]);
+	});
+});
+
+describe('compareWithHodl', () => {
+	const metrics = calculateGridMetrics(sellLevels);
+
+	it('should show the grid behind holding when the price ends above break-even', () => {
+		const comparison = compareWithHodl(metrics, 2);
+
+		expect(comparison.gridValue).toBe(70);
+		expect(comparison.hodlValue).toBe(80);
+		expect(comparison.difference).toBe(-10);
+		expect(comparison.differencePercent).toBe(-12.5);
+	});
+
+	it('should show the grid ahead when the price ends below break-even', () => {
+		const comparison = compareWithHodl(metrics, 1);
+
+		expect(comparison.difference).toBe(30);
+		expect(comparison.differencePercent).toBe(75);
+	});
+
+	it('should not give a percentage against a worthless holding', () => {
+		expect(compareWithHodl(metrics, 0).differencePercent).toBeNull();
+	});
+});
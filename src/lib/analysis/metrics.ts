@@ -0,0 +1,113 @@
+import type { GridLevel } from '$lib/strategies';
+
+/**
+ * Input token received by one sell level
+ */
+export interface LevelReceipt {
+	level: number;
+	price: number;
+	/** Output token sold */
+	amount: number;
+	/** Input token received */
+	received: number;
+	/** Input token received by this level and every level below it */
+	cumulativeReceived: number;
+}
+
+/**
+ * Execution figures for a grid once every level has filled
+ */
+export interface GridMetrics {
+	/** Output token sold by the sell levels */
+	totalSold: number;
+	/** Input token received by the sell levels */
+	totalReceived: number;
+	/** Output token bought by the buy levels */
+	totalBought: number;
+	/** Input token spent by the buy levels */
+	totalSpent: number;
+	/** Volume-weighted average sell price, null without sell levels */
+	averageSellPrice: number | null;
+	/**
+	 * Final price at which the filled grid is worth the same as holding. Below it the grid comes
+	 * out ahead. Equals the average sell price for a sell-only grid, null when the buys take in as
+	 * much output token as the sells give up.
+	 */
+	breakEvenPrice: number | null;
+	receipts: LevelReceipt[];
+}
+
+/**
+ * Filled grid compared with holding the output token instead
+ *
+ * Values are in input token units at the final price.
+ */
+export interface HodlComparison {
+	finalPrice: number;
+	/** Input token received less input token spent by the grid */
+	gridValue: number;
+	/** Output token the grid gave up, valued at the final price */
+	hodlValue: number;
+	/** Grid value less HODL value, positive when the grid did better */
+	difference: number;
+	/** Difference relative to the HODL value, null when that is 0 */
+	differencePercent: number | null;
+}
+
+/**
+ * Work out execution figures for a grid, assuming every level fills
+ * @param levels - Levels from `calculateGridLevels`
+ */
+export function calculateGridMetrics(levels: GridLevel[]): GridMetrics {
+	const sellLevels = levels
+		.filter((level) => level.side === 'sell')
+		.sort((a, b) => a.price - b.price);
+	const buyLevels = levels.filter((level) => level.side === 'buy');
+
+	let cumulativeReceived = 0;
+	const receipts = sellLevels.map((level) => {
+		cumulativeReceived += level.total;
+		return {
+			level: level.level,
+			price: level.price,
+			amount: level.amount,
+			received: level.total,
+			cumulativeReceived
+		};
+	});
+
+	const totalSold = sellLevels.reduce((sum, level) => sum + level.amount, 0);
+	const totalReceived = cumulativeReceived;
+	const totalBought = buyLevels.reduce((sum, level) => sum + level.amount, 0);
+	const totalSpent = buyLevels.reduce((sum, level) => sum + level.total, 0);
+	const netSold = totalSold - totalBought;
+
+	return {
+		totalSold,
+		totalReceived,
+		totalBought,
+		totalSpent,
+		averageSellPrice: totalSold > 0 ? totalReceived / totalSold : null,
+		breakEvenPrice: netSold > 0 ? (totalReceived - totalSpent) / netSold : null,
+		receipts
+	};
+}
+
+/**
+ * Compare a filled grid with holding the output token, at a chosen final price
+ * @param metrics - Figures from `calculateGridMetrics`
+ * @param finalPrice - Price of the output token in input token when the comparison is made
+ */
+export function compareWithHodl(metrics: GridMetrics, finalPrice: number): HodlComparison {
+	const gridValue = metrics.totalReceived - metrics.totalSpent;
+	const hodlValue = (metrics.totalSold - metrics.totalBought) * finalPrice;
+	const difference = gridValue - hodlValue;
+
+	return {
+		finalPrice,
+		gridValue,
+		hodlValue,
+		difference,
+		differencePercent: hodlValue !== 0 ? (difference / Math.abs(hodlValue)) * 100 : null
+	};
+}
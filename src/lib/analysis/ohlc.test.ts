@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import { parseOhlcFile, invertCandles } from './ohlc';
+
+describe('parseOhlcFile', () => {
+	it('should parse CSV with a header row and second timestamps', () => {
+		const csv = [
+			'Timestamp,Open,High,Low,Close',
+			'1717200000,0.020,0.022,0.019,0.021',
+			'1717203600,0.021,0.023,0.020,0.022'
+		].join('\n');
+
+		const { candles, error } = parseOhlcFile(csv, 'prices.csv');
+
+		expect(error).toBeNull();
+		expect(candles).toHaveLength(2);
+		expect(candles[0]).toEqual({
+			timestamp: 1717200000000,
+			open: 0.02,
+			high: 0.022,
+			low: 0.019,
+			close: 0.021
+		});
+	});
+
+	it('should parse CSV with ISO dates and sort candles', () => {
+		const csv = [
+			'date,open,high,low,close',
+			'2024-06-02T00:00:00Z,2,3,1,2',
+			'2024-06-01T00:00:00Z,1,2,1,2'
+		].join('\r\n');
+
+		const { candles, error } = parseOhlcFile(csv, 'prices.csv');
+
+		expect(error).toBeNull();
+		expect(candles.map((candle) => candle.timestamp)).toEqual([
+			Date.parse('2024-06-01T00:00:00Z'),
+			Date.parse('2024-06-02T00:00:00Z')
+		]);
+	});
+
+	it('should parse JSON objects with millisecond timestamps', () => {
+		const json = JSON.stringify([{ time: 1717200000000, open: 1, high: 2, low: 0.5, close: 1.5 }]);
+
+		const { candles, error } = parseOhlcFile(json, 'prices.json');
+
+		expect(error).toBeNull();
+		expect(candles[0].timestamp).toBe(1717200000000);
+		expect(candles[0].close).toBe(1.5);
+	});
+
+	it('should parse JSON arrays of tuples and wrapped candle lists', () => {
+		const tuples = JSON.stringify([[1717200000, 1, 2, 0.5, 1.5]]);
+		const wrapped = JSON.stringify({
+			candles: [{ timestamp: 1717200000, open: 1, high: 2, low: 0.5, close: 1.5 }]
+		});
+
+		expect(parseOhlcFile(tuples, 'prices.json').candles).toHaveLength(1);
+		expect(parseOhlcFile(wrapped, 'prices.json').candles).toHaveLength(1);
+	});
+
+	it('should reject candles with inconsistent prices', () => {
+		const csv = ['timestamp,open,high,low,close', '1717200000,1,0.5,0.4,1'].join('\n');
+
+		const { candles, error } = parseOhlcFile(csv, 'prices.csv');
+
+		expect(candles).toEqual([]);
+		expect(error).toContain('Invalid candle at row 1');
+	});
+
+	it('should reject rows without a timestamp column', () => {
+		const csv = ['open,high,low,close', '1,2,0.5,1'].join('\n');
+
+		expect(parseOhlcFile(csv, 'prices.csv').error).toContain('Invalid candle');
+	});
+
+	it('should report empty files', () => {
+		expect(parseOhlcFile('', 'prices.csv').error).toBe('No price data found in file');
+		expect(parseOhlcFile('[]', 'prices.json').error).toBe('No price data found in file');
+	});
+
+	it('should report malformed JSON', () => {
+		const { candles, error } = parseOhlcFile('[{', 'prices.json');
+
+		expect(candles).toEqual([]);
+		expect(error).toContain('Could not read file');
+	});
+});
+
+describe('invertCandles', () => {
+	it('should invert prices and swap the high and low', () => {
+		expect(
+			invertCandles([{ timestamp: 1000, open: 0.5, high: 0.8, low: 0.25, close: 0.4 }])
+		).toEqual([{ timestamp: 1000, open: 2, high: 4, low: 1.25, close: 2.5 }]);
+	});
+});
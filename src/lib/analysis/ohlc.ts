@@ -0,0 +1,149 @@
+/**
+ * Single OHLC candle, prices quoted as input token per output token
+ */
+export interface OhlcCandle {
+	/** Candle open time in milliseconds since epoch */
+	timestamp: number;
+	open: number;
+	high: number;
+	low: number;
+	close: number;
+}
+
+/**
+ * Result of parsing an OHLC file
+ */
+export interface OhlcParseResult {
+	candles: OhlcCandle[];
+	error: string | null;
+}
+
+const TIMESTAMP_KEYS = ['timestamp', 'time', 'date', 'datetime', 'open_time'];
+
+/**
+ * Convert seconds, milliseconds or date strings into milliseconds since epoch
+ */
+function parseTimestamp(value: unknown): number {
+	if (typeof value === 'number') {
+		return value < 1e12 ? value * 1000 : value;
+	}
+
+	const text = String(value ?? '').trim();
+	if (/^\d+(\.\d+)?$/.test(text)) {
+		return parseTimestamp(Number(text));
+	}
+
+	return Date.parse(text);
+}
+
+function toCandle(row: Record<string, unknown>): OhlcCandle {
+	const timestampKey = TIMESTAMP_KEYS.find((key) => row[key] !== undefined);
+
+	return {
+		timestamp: timestampKey ? parseTimestamp(row[timestampKey]) : NaN,
+		open: Number(row.open),
+		high: Number(row.high),
+		low: Number(row.low),
+		close: Number(row.close)
+	};
+}
+
+function isValidCandle(candle: OhlcCandle): boolean {
+	const { timestamp, open, high, low, close } = candle;
+	const values = [open, high, low, close];
+
+	return (
+		isFinite(timestamp) &&
+		values.every((value) => isFinite(value) && value > 0) &&
+		high >= Math.max(open, close, low) &&
+		low <= Math.min(open, close)
+	);
+}
+
+function parseCsvRows(content: string): Record<string, unknown>[] {
+	const lines = content
+		.split(/\r?\n/)
+		.map((line) => line.trim())
+		.filter((line) => line !== '');
+
+	if (lines.length < 2) return [];
+
+	const headers = lines[0].split(',').map((header) => header.trim().toLowerCase());
+
+	return lines.slice(1).map((line) => {
+		const cells = line.split(',').map((cell) => cell.trim());
+		return Object.fromEntries(headers.map((header, index) => [header, cells[index]]));
+	});
+}
+
+function parseJsonRows(content: string): Record<string, unknown>[] {
+	const data = JSON.parse(content);
+	const rows: unknown[] = Array.isArray(data) ? data : data?.candles;
+
+	if (!Array.isArray(rows)) return [];
+
+	return rows.map((row) => {
+		if (Array.isArray(row)) {
+			const [timestamp, open, high, low, close] = row;
+			return { timestamp, open, high, low, close };
+		}
+
+		return Object.fromEntries(
+			Object.entries(row as Record<string, unknown>).map(([key, value]) => [
+				key.toLowerCase(),
+				value
+			])
+		);
+	});
+}
+
+/**
+ * Parse an uploaded OHLC file into sorted candles
+ * @param content - File content
+ * @param fileName - File name, used to pick the CSV or JSON parser
+ * @returns Parsed candles or an error message
+ */
+export function parseOhlcFile(content: string, fileName: string): OhlcParseResult {
+	try {
+		const isJson = fileName.toLowerCase().endsWith('.json') || content.trim().startsWith('[');
+		const rows = isJson ? parseJsonRows(content) : parseCsvRows(content);
+
+		if (rows.length === 0) {
+			return { candles: [], error: 'No price data found in file' };
+		}
+
+		const candles = rows.map(toCandle);
+		const invalidIndex = candles.findIndex((candle) => !isValidCandle(candle));
+
+		if (invalidIndex !== -1) {
+			return {
+				candles: [],
+				error: `Invalid candle at row ${invalidIndex + 1}: expected timestamp, open, high, low and close`
+			};
+		}
+
+		return { candles: candles.sort((a, b) => a.timestamp - b.timestamp), error: null };
+	} catch (error) {
+		console.error('Failed to parse OHLC file:', error);
+		return {
+			candles: [],
+			error:
+				error instanceof Error ? `Could not read file: ${error.message}` : 'Could not read file'
+		};
+	}
+}
+
+/**
+ * Candles quoted the other way round, as output token per input token or back again
+ *
+ * Inverting swaps the extremes, so the new high comes from the old low.
+ */
+export function invertCandles(candles: OhlcCandle[]): OhlcCandle[] {
+	return candles.map(({ timestamp, open, high, low, close }) => ({
+		timestamp,
+		open: 1 / open,
+		high: 1 / low,
+		low: 1 / high,
+		close: 1 / close
+	}));
+}
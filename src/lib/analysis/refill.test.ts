@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import { projectRefills, SECONDS_PER_DAY, SECONDS_PER_HOUR } from './refill';
+import type { GridLevel } from '$lib/strategies';
+
+const levels: GridLevel[] = [
+	{ level: 1, side: 'sell', price: 1, amount: 10, total: 10 },
+	{ level: 2, side: 'sell', price: 2, amount: 10, total: 20 },
+	{ level: 3, side: 'sell', price: 3, amount: 10, total: 30 }
+];
+
+describe('projectRefills', () => {
+	it('should turn seconds per tranche into sustained rates for the reached levels', () => {
+		const projection = projectRefills(levels, {
+			secondsPerTranche: SECONDS_PER_HOUR,
+			price: 2,
+			horizonSeconds: SECONDS_PER_DAY,
+			initialInventory: 1000
+		});
+
+		expect(projection.activeLevels).toBe(2);
+		expect(projection.tranchesPerHour).toBe(2);
+		expect(projection.tranchesPerDay).toBe(48);
+		expect(projection.volumePerDay).toBe(480);
+		expect(projection.proceedsPerDay).toBe(720);
+	});
+
+	it('should count the fill at the start and every refill within the horizon', () => {
+		const projection = projectRefills(levels, {
+			secondsPerTranche: SECONDS_PER_HOUR,
+			price: 2,
+			horizonSeconds: SECONDS_PER_DAY,
+			initialInventory: 1000,
+			steps: 24
+		});
+
+		expect(projection.timeline).toHaveLength(25);
+		expect(projection.timeline[0]).toEqual({ time: 0, tranches: 2, sold: 20, proceeds: 30 });
+		expect(projection.totalTranches).toBe(50);
+		expect(projection.totalSold).toBe(500);
+		expect(projection.totalProceeds).toBe(750);
+		expect(projection.soldOutAt).toBeNull();
+	});
+
+	it('should stop when the inventory runs out, selling the lowest levels last', () => {
+		const projection = projectRefills(levels, {
+			secondsPerTranche: SECONDS_PER_HOUR,
+			price: 3,
+			horizonSeconds: SECONDS_PER_DAY,
+			initialInventory: 75
+		});
+
+		expect(projection.totalSold).toBe(75);
+		expect(projection.totalTranches).toBe(8);
+		expect(projection.totalProceeds).toBe(60 + 60 + 10 + 10);
+		expect(projection.soldOutAt).toBe(2 * SECONDS_PER_HOUR);
+	});
+
+	it('should sell each level once when refills are off', () => {
+		const projection = projectRefills(levels, {
+			secondsPerTranche: 0,
+			price: 3,
+			horizonSeconds: SECONDS_PER_DAY,
+			initialInventory: 100
+		});
+
+		expect(projection.tranchesPerDay).toBe(0);
+		expect(projection.totalSold).toBe(30);
+		expect(projection.soldOutAt).toBeNull();
+	});
+
+	it('should default the inventory to the level amounts', () => {
+		const projection = projectRefills(levels, {
+			secondsPerTranche: 60,
+			price: 5,
+			horizonSeconds: SECONDS_PER_HOUR
+		});
+
+		expect(projection.initialInventory).toBe(30);
+		expect(projection.totalSold).toBe(30);
+		expect(projection.soldOutAt).toBe(0);
+	});
+
+	it('should sell nothing below the lowest level', () => {
+		const projection = projectRefills(levels, {
+			secondsPerTranche: 60,
+			price: 0.5,
+			horizonSeconds: SECONDS_PER_DAY
+		});
+
+		expect(projection.activeLevels).toBe(0);
+		expect(projection.totalSold).toBe(0);
+		expect(projection.volumePerDay).toBe(0);
+		expect(projection.soldOutAt).toBeNull();
+	});
+});
@@ -0,0 +1,130 @@
+import type { GridLevel } from '$lib/strategies';
+
+export const SECONDS_PER_HOUR = 60 * 60;
+export const SECONDS_PER_DAY = 24 * SECONDS_PER_HOUR;
+const DEFAULT_PROJECTION_STEPS = 48;
+
+export interface RefillOptions {
+	/** Seconds before a filled level can sell again; 0 disables refills */
+	secondsPerTranche: number;
+	/** Price held for the whole horizon, every level at or below it keeps selling */
+	price: number;
+	/** Length of the projection in seconds */
+	horizonSeconds: number;
+	/** Output token available to sell; defaults to the sum of all level amounts */
+	initialInventory?: number;
+	/** Number of points in the timeline after the start */
+	steps?: number;
+}
+
+/**
+ * Cumulative totals at a point in the projection
+ */
+export interface RefillPoint {
+	/** Seconds from the start */
+	time: number;
+	tranches: number;
+	/** Output token sold */
+	sold: number;
+	/** Input token received */
+	proceeds: number;
+}
+
+export interface RefillProjection {
+	/** Levels the sustained price reaches */
+	activeLevels: number;
+	/** Sustained rates while inventory lasts, 0 when refills are disabled */
+	tranchesPerHour: number;
+	tranchesPerDay: number;
+	/** Output token sold per day */
+	volumePerDay: number;
+	/** Input token received per day */
+	proceedsPerDay: number;
+	initialInventory: number;
+	/** Most the grid can sell within the horizon */
+	totalTranches: number;
+	totalSold: number;
+	totalProceeds: number;
+	/** Seconds until the inventory runs out, null when it lasts the horizon */
+	soldOutAt: number | null;
+	timeline: RefillPoint[];
+}
+
+/**
+ * Project how much a grid sells when the price holds at one level
+ *
+ * Follows the backtest's refill rule: every reached level sells its tranche straight away, then
+ * again each time `secondsPerTranche` passes, lowest price first, until the inventory runs out.
+ * @param levels - Sell levels from `calculateGridLevels`
+ * @param options - Refill delay, sustained price and horizon
+ */
+export function projectRefills(levels: GridLevel[], options: RefillOptions): RefillProjection {
+	const refillSeconds = Math.max(0, options.secondsPerTranche);
+	const horizon = Math.max(0, options.horizonSeconds);
+	const steps = Math.max(1, Math.floor(options.steps ?? DEFAULT_PROJECTION_STEPS));
+	const initialInventory =
+		options.initialInventory ?? levels.reduce((sum, level) => sum + level.amount, 0);
+
+	const activeLevels = [...levels]
+		.filter((level) => level.price <= options.price && level.amount > 0)
+		.sort((a, b) => a.price - b.price);
+	const soldPerRound = activeLevels.reduce((sum, level) => sum + level.amount, 0);
+	const proceedsPerRound = activeLevels.reduce((sum, level) => sum + level.amount * level.price, 0);
+	const fullRounds = soldPerRound > 0 ? Math.floor(initialInventory / soldPerRound) : Infinity;
+
+	// The round that runs out of inventory sells what is left, lowest price first
+	let lastRound = { tranches: 0, sold: 0, proceeds: 0 };
+	let remainder = Number.isFinite(fullRounds) ? initialInventory - fullRounds * soldPerRound : 0;
+	for (const level of activeLevels) {
+		if (!(remainder > 0)) break;
+		const amount = Math.min(level.amount, remainder);
+		remainder -= amount;
+		lastRound = {
+			tranches: lastRound.tranches + 1,
+			sold: lastRound.sold + amount,
+			proceeds: lastRound.proceeds + amount * level.price
+		};
+	}
+
+	const roundsBy = (time: number) => (refillSeconds > 0 ? Math.floor(time / refillSeconds) + 1 : 1);
+
+	const totalsAfter = (rounds: number): Omit<RefillPoint, 'time'> => {
+		if (rounds <= fullRounds) {
+			return {
+				tranches: rounds * activeLevels.length,
+				sold: rounds * soldPerRound,
+				proceeds: rounds * proceedsPerRound
+			};
+		}
+		return {
+			tranches: fullRounds * activeLevels.length + lastRound.tranches,
+			sold: fullRounds * soldPerRound + lastRound.sold,
+			proceeds: fullRounds * proceedsPerRound + lastRound.proceeds
+		};
+	};
+
+	const timeline: RefillPoint[] = [];
+	for (let i = 0; i <= steps; i++) {
+		const time = (horizon * i) / steps;
+		timeline.push({ time, ...totalsAfter(roundsBy(time)) });
+	}
+
+	// Rounds are numbered from 0, the last one either sells the remainder or empties the grid
+	const soldOutRound = Math.max(0, lastRound.tranches > 0 ? fullRounds : fullRounds - 1);
+	const soldOutAt = soldOutRound < roundsBy(horizon) ? soldOutRound * refillSeconds : null;
+	const roundsPerDay = refillSeconds > 0 ? SECONDS_PER_DAY / refillSeconds : 0;
+
+	return {
+		activeLevels: activeLevels.length,
+		tranchesPerHour: (roundsPerDay * activeLevels.length) / 24,
+		tranchesPerDay: roundsPerDay * activeLevels.length,
+		volumePerDay: roundsPerDay * soldPerRound,
+		proceedsPerDay: roundsPerDay * proceedsPerRound,
+		initialInventory,
+		totalTranches: timeline[timeline.length - 1].tranches,
+		totalSold: timeline[timeline.length - 1].sold,
+		totalProceeds: timeline[timeline.length - 1].proceeds,
+		soldOutAt,
+		timeline
+	};
+}
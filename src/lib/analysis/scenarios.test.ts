@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest';
+import { getScenarioParameters, parseStoredScenarios, summarizeScenario } from './scenarios';
+import { GridStrategyConfig, DcaStrategyConfig } from '$lib/strategies';
+import type { Scenario } from '$lib/types';
+
+function scenario(
+	fieldValues: Record<string, string>,
+	strategyKey: 'grid' | 'dca' = 'grid'
+): Scenario {
+	return { id: 'scenario-1', name: 'Test', strategyKey, fieldValues, tokenDecimals: null };
+}
+
+describe('summarizeScenario', () => {
+	const grid = new GridStrategyConfig();
+
+	it('should summarise a grid scenario with its strategy calculations', () => {
+		const summary = summarizeScenario(
+			grid,
+			scenario({
+				'baseline-io-ratio': '1',
+				'io-ratio-growth': '0.5',
+				'tranche-size': '100',
+				'level-count': '2'
+			})
+		);
+
+		expect(summary.gridLevels.map((level) => level.price)).toEqual([1, 1.5]);
+		expect(summary.maxReturns).toBe('250');
+		expect(summary.requiredDeposit).toBe(200);
+		expect(summary.breakEvenPrice).toBe(1.25);
+	});
+
+	it('should weight the break-even price by the amount sold at each level', () => {
+		const summary = summarizeScenario(
+			grid,
+			scenario({
+				'baseline-io-ratio': '1',
+				'io-ratio-growth': '1',
+				'tranche-size': '100',
+				'level-count': '2',
+				'tranche-scaling': 'linear',
+				'tranche-growth': '2'
+			})
+		);
+
+		expect(summary.breakEvenPrice).toBe((100 + 300 * 2) / 400);
+	});
+
+	it('should leave out the break-even price for strategies without grid levels', () => {
+		const summary = summarizeScenario(
+			new DcaStrategyConfig(),
+			scenario({ 'amount-per-epoch': '10', 'epoch-count': '3' }, 'dca')
+		);
+
+		expect(summary.gridLevels).toEqual([]);
+		expect(summary.breakEvenPrice).toBeNull();
+		expect(summary.requiredDeposit).toBeGreaterThan(0);
+	});
+});
+
+describe('getScenarioParameters', () => {
+	it('should keep only the strategy field bindings', () => {
+		const parameters = getScenarioParameters(new GridStrategyConfig(), {
+			'baseline-io-ratio': '1',
+			'level-count': '2',
+			token1: '0x1234567890123456789012345678901234567890',
+			'deposits.token1': '100',
+			'vaultIds.input.0': '1'
+		});
+
+		expect(parameters).toEqual({ 'baseline-io-ratio': '1', 'level-count': '2' });
+	});
+});
+
+describe('parseStoredScenarios', () => {
+	it('should keep well-formed scenarios', () => {
+		const stored = [
+			scenario({ 'tranche-size': '100' }),
+			{ ...scenario({}), tokenDecimals: { input: 6, output: 18 } }
+		];
+
+		expect(parseStoredScenarios(JSON.parse(JSON.stringify(stored)))).toEqual(stored);
+	});
+
+	it('should drop entries of another shape', () => {
+		expect(
+			parseStoredScenarios([
+				null,
+				{ name: 'No id', strategyKey: 'grid', fieldValues: {}, tokenDecimals: null },
+				{ ...scenario({}), fieldValues: { 'tranche-size': 100 } },
+				{ ...scenario({}), tokenDecimals: { input: '6' } },
+				scenario({ 'tranche-size': '100' })
+			])
+		).toEqual([scenario({ 'tranche-size': '100' })]);
+	});
+
+	it('should give no scenarios for anything but an array', () => {
+		expect(parseStoredScenarios({ scenarios: [] })).toEqual([]);
+		expect(parseStoredScenarios('scenarios')).toEqual([]);
+		expect(parseStoredScenarios(null)).toEqual([]);
+	});
+});
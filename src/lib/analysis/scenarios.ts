@@ -0,0 +1,89 @@
+import type { GridLevel, StrategyConfig, TokenDecimals } from '$lib/strategies';
+import type { Scenario } from '$lib/types';
+import { calculateGridMetrics } from './metrics';
+
+/**
+ * Figures compared across saved scenarios
+ */
+export interface ScenarioSummary {
+	scenario: Scenario;
+	gridLevels: GridLevel[];
+	/** Exact max returns in input token units */
+	maxReturns: string;
+	/** Output token needed to fund every level, null when the strategy doesn't model deposits */
+	requiredDeposit: number | null;
+	/** Break-even price from `calculateGridMetrics` */
+	breakEvenPrice: number | null;
+}
+
+/**
+ * The strategy parameters among the form values, leaving out token selections, deposits and vault IDs
+ */
+export function getScenarioParameters(
+	strategy: StrategyConfig,
+	fieldValues: Record<string, string>
+): Record<string, string> {
+	return Object.fromEntries(
+		Object.entries(fieldValues).filter(([binding]) => strategy.getFieldMetadata(binding) !== null)
+	);
+}
+
+/**
+ * The well-formed scenarios in a value read back from storage
+ *
+ * Anything that isn't an array gives no scenarios, and entries of another shape, such as ones
+ * saved by an older version, are dropped.
+ */
+export function parseStoredScenarios(value: unknown): Scenario[] {
+	return Array.isArray(value) ? value.filter(isScenario) : [];
+}
+
+/**
+ * Run a scenario's values through its strategy's calculations
+ */
+export function summarizeScenario(strategy: StrategyConfig, scenario: Scenario): ScenarioSummary {
+	const calculations = strategy.getCalculations();
+	const decimals = scenario.tokenDecimals ?? undefined;
+	const gridLevels = calculations.calculateGridLevels?.(scenario.fieldValues, decimals) ?? [];
+
+	return {
+		scenario,
+		gridLevels,
+		maxReturns: calculations.calculateExactMaxReturns
+			? calculations.calculateExactMaxReturns(scenario.fieldValues, decimals)
+			: calculations.calculateMaxReturns(scenario.fieldValues, decimals).toString(),
+		requiredDeposit: calculations.calculateRequiredDeposit
+			? calculations.calculateRequiredDeposit(scenario.fieldValues, decimals)
+			: null,
+		breakEvenPrice: calculateGridMetrics(gridLevels).breakEvenPrice
+	};
+}
+
+function isScenario(value: unknown): value is Scenario {
+	if (!value || typeof value !== 'object') return false;
+
+	const { id, name, strategyKey, fieldValues, tokenDecimals } = value as Record<string, unknown>;
+	return (
+		typeof id === 'string' &&
+		typeof name === 'string' &&
+		typeof strategyKey === 'string' &&
+		isStringRecord(fieldValues) &&
+		(tokenDecimals === null || isTokenDecimals(tokenDecimals))
+	);
+}
+
+function isStringRecord(value: unknown): value is Record<string, string> {
+	return (
+		!!value &&
+		typeof value === 'object' &&
+		!Array.isArray(value) &&
+		Object.values(value).every((item) => typeof item === 'string')
+	);
+}
+
+function isTokenDecimals(value: unknown): value is TokenDecimals {
+	if (!value || typeof value !== 'object') return false;
+
+	const { input, output } = value as Record<string, unknown>;
+	return Number.isInteger(input) && Number.isInteger(output);
+}
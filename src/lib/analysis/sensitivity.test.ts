@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import { getRangeValues, sweepSensitivity, MAX_SENSITIVITY_STEPS } from './sensitivity';
+import { GridStrategyConfig } from '$lib/strategies';
+
+const fieldValues = {
+	'baseline-io-ratio': '1',
+	'io-ratio-growth': '0.5',
+	'tranche-size': '100',
+	'level-count': '2'
+};
+
+describe('getRangeValues', () => {
+	it('should space values evenly without float noise', () => {
+		expect(getRangeValues({ field: 'io-ratio-growth', min: 0.1, max: 0.3, steps: 3 })).toEqual([
+			'0.1',
+			'0.2',
+			'0.3'
+		]);
+	});
+
+	it('should give one value for a single step or equal ends', () => {
+		expect(getRangeValues({ field: 'tranche-size', min: 5, max: 10, steps: 1 })).toEqual(['5']);
+		expect(getRangeValues({ field: 'tranche-size', min: 5, max: 5, steps: 4 })).toEqual(['5']);
+	});
+
+	it('should cap the number of steps and reject backwards ranges', () => {
+		expect(getRangeValues({ field: 'tranche-size', min: 1, max: 100, steps: 50 })).toHaveLength(
+			MAX_SENSITIVITY_STEPS
+		);
+		expect(getRangeValues({ field: 'tranche-size', min: 10, max: 1, steps: 3 })).toEqual([]);
+	});
+});
+
+describe('sweepSensitivity', () => {
+	const grid = new GridStrategyConfig();
+
+	it('should evaluate max returns for every combination', () => {
+		const result = sweepSensitivity(
+			grid,
+			fieldValues,
+			{ field: 'io-ratio-growth', min: 0.5, max: 1, steps: 2 },
+			{ field: 'tranche-size', min: 100, max: 200, steps: 2 },
+			{ metric: 'max-returns' }
+		);
+
+		expect(result.xValues).toEqual(['0.5', '1']);
+		expect(result.yValues).toEqual(['100', '200']);
+		expect(result.cells.map((row) => row.map((cell) => cell.value))).toEqual([
+			[250, 300],
+			[500, 600]
+		]);
+		expect(result.cells[1][0].fieldValues).toEqual({
+			'io-ratio-growth': '0.5',
+			'tranche-size': '200'
+		});
+		expect(result.min).toBe(250);
+		expect(result.max).toBe(600);
+	});
+
+	it('should evaluate the share of sell levels a deposit funds', () => {
+		const result = sweepSensitivity(
+			grid,
+			fieldValues,
+			{ field: 'io-ratio-growth', min: 0.5, max: 0.5, steps: 1 },
+			{ field: 'tranche-size', min: 100, max: 400, steps: 3 },
+			{ metric: 'deposit-coverage', deposit: '300' }
+		);
+
+		expect(result.cells.map((row) => row[0].value)).toEqual([1, 0.5, 0]);
+	});
+
+	it('should leave combinations without levels empty', () => {
+		const result = sweepSensitivity(
+			grid,
+			fieldValues,
+			{ field: 'io-ratio-growth', min: 0.5, max: 0.5, steps: 1 },
+			{ field: 'tranche-size', min: 0, max: 0, steps: 1 },
+			{ metric: 'deposit-coverage', deposit: '300' }
+		);
+
+		expect(result.cells[0][0].value).toBeNull();
+		expect(result.min).toBeNull();
+	});
+});
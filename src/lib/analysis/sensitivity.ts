@@ -0,0 +1,120 @@
+import type { StrategyConfig, TokenDecimals } from '$lib/strategies';
+import { analyzeDepositCoverage } from './depositCoverage';
+import { resolveTokenDecimals, toFieldValue } from '$lib/utils/decimal';
+
+/**
+ * Most values a sweep takes along one axis
+ */
+export const MAX_SENSITIVITY_STEPS = 12;
+
+/**
+ * Figure evaluated for each combination of a sweep
+ *
+ * - `max-returns`: input token received if every level sells
+ * - `deposit-coverage`: share of sell levels the current deposit funds
+ */
+export type SensitivityMetric = 'max-returns' | 'deposit-coverage';
+
+/**
+ * Values one field takes in a sweep, evenly spaced from `min` to `max`
+ */
+export interface SensitivityRange {
+	field: string;
+	min: number;
+	max: number;
+	steps: number;
+}
+
+export interface SensitivityCell {
+	/** Values of the two swept fields, ready to apply to the form */
+	fieldValues: Record<string, string>;
+	/** Null when the combination gives no grid to evaluate */
+	value: number | null;
+}
+
+export interface SensitivityGrid {
+	xValues: string[];
+	yValues: string[];
+	/** One row per y value, one cell per x value */
+	cells: SensitivityCell[][];
+	/** Smallest and largest evaluated value, null when no cell has one */
+	min: number | null;
+	max: number | null;
+}
+
+export interface SensitivityOptions {
+	metric: SensitivityMetric;
+	decimals?: TokenDecimals;
+	/** Output token deposit, used by `deposit-coverage` */
+	deposit?: string;
+}
+
+/**
+ * Evenly spaced values of a range as field value strings
+ *
+ * Steps are clamped to 1..`MAX_SENSITIVITY_STEPS`, and a range with equal ends gives one value.
+ * Returns an empty list for a range that isn't finite or runs backwards.
+ */
+export function getRangeValues(range: SensitivityRange): string[] {
+	const { min, max } = range;
+	if (!Number.isFinite(min) || !Number.isFinite(max) || max < min) return [];
+
+	const steps = Math.min(MAX_SENSITIVITY_STEPS, Math.max(1, Math.floor(range.steps) || 1));
+	if (steps === 1 || min === max) return [toFieldValue(min)];
+
+	return Array.from({ length: steps }, (_, index) =>
+		toFieldValue(min + ((max - min) * index) / (steps - 1))
+	);
+}
+
+/**
+ * Evaluate a strategy for every combination of two fields
+ *
+ * Fields outside the two ranges keep their current values.
+ * @param strategy - Strategy whose calculations are run
+ * @param fieldValues - Current field values
+ * @param x - Field swept across the columns
+ * @param y - Field swept across the rows
+ * @param options - Metric to evaluate and the token details it needs
+ */
+export function sweepSensitivity(
+	strategy: StrategyConfig,
+	fieldValues: Record<string, string>,
+	x: SensitivityRange,
+	y: SensitivityRange,
+	options: SensitivityOptions
+): SensitivityGrid {
+	const calculations = strategy.getCalculations();
+	const { output } = resolveTokenDecimals(options.decimals);
+	const xValues = getRangeValues(x);
+	const yValues = getRangeValues(y);
+
+	const evaluate = (values: Record<string, string>): number | null => {
+		if (options.metric === 'deposit-coverage') {
+			const levels = calculations.calculateGridLevels?.(values, options.decimals) ?? [];
+			const coverage = analyzeDepositCoverage(levels, options.deposit ?? '', output, 'sell');
+			return coverage.levelCount > 0 ? coverage.fundedLevels / coverage.levelCount : null;
+		}
+
+		const returns = calculations.calculateExactMaxReturns
+			? Number(calculations.calculateExactMaxReturns(values, options.decimals))
+			: calculations.calculateMaxReturns(values, options.decimals);
+		return Number.isFinite(returns) ? returns : null;
+	};
+
+	let min: number | null = null;
+	let max: number | null = null;
+	const cells = yValues.map((yValue) =>
+		xValues.map((xValue) => {
+			const swept = { [x.field]: xValue, [y.field]: yValue };
+			const value = evaluate({ ...fieldValues, ...swept });
+			if (value !== null) {
+				min = min === null ? value : Math.min(min, value);
+				max = max === null ? value : Math.max(max, value);
+			}
+			return { fieldValues: swept, value };
+		})
+	);
+
+	return { xValues, yValues, cells, min, max };
+}
@@ -0,0 +1,149 @@
+import { describe, it, expect } from 'vitest';
+import {
+	createSeededRandom,
+	generateGbmPath,
+	calculatePercentiles,
+	runMonteCarloSimulation,
+	MAX_SIMULATION_WORK,
+	type MonteCarloInput
+} from './simulation';
+import type { GridLevel } from '$lib/strategies';
+
+const levels: GridLevel[] = [
+	{ level: 1, side: 'sell', price: 1.05, amount: 10, total: 10.5 },
+	{ level: 2, side: 'sell', price: 1.1, amount: 10, total: 11 },
+	{ level: 3, side: 'sell', price: 1.2, amount: 10, total: 12 }
+];
+
+const input: MonteCarloInput = {
+	startPrice: 1,
+	drift: 0,
+	volatility: 0.8,
+	steps: 24 * 30,
+	stepSeconds: 3600,
+	paths: 200,
+	seed: 42,
+	secondsPerTranche: 0
+};
+
+describe('createSeededRandom', () => {
+	it('should repeat the same sequence for the same seed', () => {
+		const a = createSeededRandom(7);
+		const b = createSeededRandom(7);
+
+		const sequence = Array.from({ length: 5 }, () => a());
+
+		expect(Array.from({ length: 5 }, () => b())).toEqual(sequence);
+		sequence.forEach((value) => {
+			expect(value).toBeGreaterThanOrEqual(0);
+			expect(value).toBeLessThan(1);
+		});
+	});
+
+	it('should produce different sequences for different seeds', () => {
+		expect(createSeededRandom(1)()).not.toBe(createSeededRandom(2)());
+	});
+});
+
+describe('generateGbmPath', () => {
+	it('should chain candles from the start price', () => {
+		const candles = generateGbmPath(input, createSeededRandom(1));
+
+		expect(candles).toHaveLength(input.steps);
+		expect(candles[0].open).toBe(1);
+		expect(candles[1].open).toBe(candles[0].close);
+		expect(candles[1].timestamp).toBe(3600 * 1000);
+		candles.forEach((candle) => {
+			expect(candle.high).toBeGreaterThanOrEqual(Math.max(candle.open, candle.close));
+			expect(candle.low).toBeLessThanOrEqual(Math.min(candle.open, candle.close));
+		});
+	});
+
+	it('should follow the drift exactly without volatility', () => {
+		const candles = generateGbmPath(
+			{ ...input, drift: 0.1, volatility: 0, steps: 365, stepSeconds: 86400 },
+			createSeededRandom(1)
+		);
+
+		expect(candles[candles.length - 1].close).toBeCloseTo(Math.exp(0.1), 10);
+	});
+});
+
+describe('calculatePercentiles', () => {
+	it('should interpolate between sorted values', () => {
+		const percentiles = calculatePercentiles([5, 1, 3, 2, 4]);
+
+		expect(percentiles.min).toBe(1);
+		expect(percentiles.p25).toBe(2);
+		expect(percentiles.p50).toBe(3);
+		expect(percentiles.p5).toBeCloseTo(1.2);
+		expect(percentiles.max).toBe(5);
+		expect(percentiles.mean).toBe(3);
+	});
+
+	it('should return zeros for an empty sample', () => {
+		expect(calculatePercentiles([]).p50).toBe(0);
+	});
+});
+
+describe('runMonteCarloSimulation', () => {
+	it('should be deterministic for a seed', () => {
+		const first = runMonteCarloSimulation(levels, input);
+		const second = runMonteCarloSimulation(levels, input);
+
+		expect(first.error).toBeNull();
+		expect(second.summary).toEqual(first.summary);
+	});
+
+	it('should change with the seed', () => {
+		const first = runMonteCarloSimulation(levels, input).summary!;
+		const second = runMonteCarloSimulation(levels, { ...input, seed: 43 }).summary!;
+
+		expect(second.runs).not.toEqual(first.runs);
+	});
+
+	it('should report ordered percentiles within grid bounds', () => {
+		const { summary } = runMonteCarloSimulation(levels, input);
+
+		expect(summary!.runs).toHaveLength(200);
+		expect(summary!.fills.p5).toBeLessThanOrEqual(summary!.fills.p50);
+		expect(summary!.fills.p50).toBeLessThanOrEqual(summary!.fills.p95);
+		expect(summary!.fills.max).toBeLessThanOrEqual(levels.length);
+		expect(summary!.proceeds.max).toBeLessThanOrEqual(33.5 + 1e-9);
+		expect(summary!.soldOutRate).toBeGreaterThanOrEqual(0);
+		expect(summary!.soldOutRate).toBeLessThanOrEqual(1);
+	});
+
+	it('should never fill levels above a flat price', () => {
+		const { summary } = runMonteCarloSimulation(levels, { ...input, volatility: 0, paths: 3 });
+
+		expect(summary!.fills.max).toBe(0);
+		expect(summary!.proceeds.max).toBe(0);
+	});
+
+	it('should reject invalid input', () => {
+		expect(runMonteCarloSimulation([], input).error).toBe('No grid levels to simulate');
+		expect(runMonteCarloSimulation(levels, { ...input, startPrice: 0 }).error).toBe(
+			'Start price must be a positive number'
+		);
+		expect(runMonteCarloSimulation(levels, { ...input, volatility: -1 }).error).toBe(
+			'Volatility cannot be negative'
+		);
+		expect(runMonteCarloSimulation(levels, { ...input, paths: 0 }).error).toContain('Paths');
+		expect(runMonteCarloSimulation(levels, { ...input, seed: 1.5 }).error).toBe(
+			'Seed must be a whole number'
+		);
+	});
+
+	it('should reject runs over the work budget before simulating', () => {
+		const manyLevels = Array.from({ length: 100 }, (_, index) => ({
+			...levels[0],
+			level: index + 1
+		}));
+		const paths = Math.floor(MAX_SIMULATION_WORK / (input.steps * manyLevels.length)) + 1;
+
+		expect(runMonteCarloSimulation(manyLevels, { ...input, paths }).error).toContain(
+			'grid levels must stay under'
+		);
+	});
+});
@@ -0,0 +1,229 @@
+import type { GridLevel } from '$lib/strategies';
+import { runGridBacktest } from './backtest';
+import type { OhlcCandle } from './ohlc';
+
+const SECONDS_PER_YEAR = 365 * 24 * 60 * 60;
+export const MAX_SIMULATION_PATHS = 2000;
+/** A year of hourly candles */
+export const MAX_SIMULATION_STEPS = 24 * 365;
+/**
+ * Most paths × steps × levels a run may replay, the simulation runs on the main thread and a
+ * larger run would freeze the page
+ */
+export const MAX_SIMULATION_WORK = 50_000_000;
+
+/**
+ * Geometric Brownian motion parameters, rates are annualized fractions (0.5 = 50%)
+ */
+export interface GbmParameters {
+	startPrice: number;
+	drift: number;
+	volatility: number;
+	/** Number of candles in the path */
+	steps: number;
+	/** Length of each candle in seconds */
+	stepSeconds: number;
+}
+
+export interface MonteCarloInput extends GbmParameters {
+	paths: number;
+	seed: number;
+	secondsPerTranche: number;
+	initialInventory?: number;
+}
+
+export interface Percentiles {
+	min: number;
+	p5: number;
+	p25: number;
+	p50: number;
+	p75: number;
+	p95: number;
+	max: number;
+	mean: number;
+}
+
+/**
+ * Outcome of a single simulated price path
+ */
+export interface SimulationRun {
+	fills: number;
+	proceeds: number;
+	sold: number;
+	finalPrice: number;
+}
+
+export interface MonteCarloSummary {
+	runs: SimulationRun[];
+	fills: Percentiles;
+	proceeds: Percentiles;
+	finalPrice: Percentiles;
+	/** Share of paths that sold the whole inventory */
+	soldOutRate: number;
+}
+
+/**
+ * Seeded uniform random generator (mulberry32), returns values in [0, 1)
+ * @param seed - Any integer; the same seed always produces the same sequence
+ */
+export function createSeededRandom(seed: number): () => number {
+	let state = seed >>> 0;
+
+	return () => {
+		state = (state + 0x6d2b79f5) >>> 0;
+		let t = state;
+		t = Math.imul(t ^ (t >>> 15), t | 1);
+		t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+		return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+	};
+}
+
+/**
+ * Standard normal sample via Box-Muller
+ */
+function nextGaussian(random: () => number): number {
+	const u1 = 1 - random();
+	const u2 = random();
+	return Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+}
+
+/**
+ * Generate a synthetic candle series following geometric Brownian motion
+ * @param params - Start price, drift, volatility and step layout
+ * @param random - Uniform random source, see `createSeededRandom`
+ * @returns Candles where open is the previous close and high/low bound both
+ */
+export function generateGbmPath(params: GbmParameters, random: () => number): OhlcCandle[] {
+	const dt = params.stepSeconds / SECONDS_PER_YEAR;
+	const driftTerm = (params.drift - (params.volatility * params.volatility) / 2) * dt;
+	const shockScale = params.volatility * Math.sqrt(dt);
+
+	const candles: OhlcCandle[] = [];
+	let price = params.startPrice;
+
+	for (let step = 0; step < params.steps; step++) {
+		const open = price;
+		price = open * Math.exp(driftTerm + shockScale * nextGaussian(random));
+
+		candles.push({
+			timestamp: step * params.stepSeconds * 1000,
+			open,
+			high: Math.max(open, price),
+			low: Math.min(open, price),
+			close: price
+		});
+	}
+
+	return candles;
+}
+
+/**
+ * Linearly interpolated percentiles of a sample
+ */
+export function calculatePercentiles(values: number[]): Percentiles {
+	if (values.length === 0) {
+		return { min: 0, p5: 0, p25: 0, p50: 0, p75: 0, p95: 0, max: 0, mean: 0 };
+	}
+
+	const sorted = [...values].sort((a, b) => a - b);
+	const at = (fraction: number) => {
+		const position = (sorted.length - 1) * fraction;
+		const lower = Math.floor(position);
+		const upper = Math.ceil(position);
+		return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+	};
+
+	return {
+		min: sorted[0],
+		p5: at(0.05),
+		p25: at(0.25),
+		p50: at(0.5),
+		p75: at(0.75),
+		p95: at(0.95),
+		max: sorted[sorted.length - 1],
+		mean: sorted.reduce((sum, value) => sum + value, 0) / sorted.length
+	};
+}
+
+function validateInput(input: MonteCarloInput, levelCount: number): string | null {
+	if (!isFinite(input.startPrice) || input.startPrice <= 0) {
+		return 'Start price must be a positive number';
+	}
+	if (!isFinite(input.drift)) {
+		return 'Drift must be a number';
+	}
+	if (!isFinite(input.volatility) || input.volatility < 0) {
+		return 'Volatility cannot be negative';
+	}
+	if (!Number.isInteger(input.steps) || input.steps < 1 || input.steps > MAX_SIMULATION_STEPS) {
+		return `Steps must be a whole number between 1 and ${MAX_SIMULATION_STEPS}`;
+	}
+	if (!isFinite(input.stepSeconds) || input.stepSeconds <= 0) {
+		return 'Step length must be a positive number of seconds';
+	}
+	if (!Number.isInteger(input.paths) || input.paths < 1 || input.paths > MAX_SIMULATION_PATHS) {
+		return `Paths must be a whole number between 1 and ${MAX_SIMULATION_PATHS}`;
+	}
+	if (!Number.isInteger(input.seed)) {
+		return 'Seed must be a whole number';
+	}
+	if (input.paths * input.steps * levelCount > MAX_SIMULATION_WORK) {
+		return `Paths × steps × grid levels must stay under ${MAX_SIMULATION_WORK / 1_000_000} million, lower the paths or the period`;
+	}
+	return null;
+}
+
+/**
+ * Run the grid over many simulated price paths
+ *
+ * Every path is replayed with `runGridBacktest`, so fills and refills follow the same rules as a
+ * historical backtest. The same input and seed always give the same summary.
+ * @param levels - Grid levels from `calculateGridLevels`
+ * @param input - Price model, path count, seed and refill delay
+ * @returns Per-path results with percentile summaries, or an error message
+ */
+export function runMonteCarloSimulation(
+	levels: GridLevel[],
+	input: MonteCarloInput
+): { summary: MonteCarloSummary | null; error: string | null } {
+	if (levels.length === 0) {
+		return { summary: null, error: 'No grid levels to simulate' };
+	}
+
+	const error = validateInput(input, levels.length);
+	if (error) {
+		return { summary: null, error };
+	}
+
+	const random = createSeededRandom(input.seed);
+	const runs: SimulationRun[] = [];
+	let soldOut = 0;
+
+	for (let path = 0; path < input.paths; path++) {
+		const candles = generateGbmPath(input, random);
+		const result = runGridBacktest(levels, candles, {
+			secondsPerTranche: input.secondsPerTranche,
+			initialInventory: input.initialInventory
+		});
+
+		if (result.remainingInventory <= 0) soldOut++;
+
+		runs.push({
+			fills: result.fills.length,
+			proceeds: result.totalProceeds,
+			sold: result.totalSold,
+			finalPrice: candles[candles.length - 1].close
+		});
+	}
+
+	return {
+		summary: {
+			runs,
+			fills: calculatePercentiles(runs.map((run) => run.fills)),
+			proceeds: calculatePercentiles(runs.map((run) => run.proceeds)),
+			finalPrice: calculatePercentiles(runs.map((run) => run.finalPrice)),
+			soldOutRate: soldOut / runs.length
+		},
+		error: null
+	};
+}
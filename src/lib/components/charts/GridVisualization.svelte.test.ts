@@ -37,6 +37,12 @@ vi.mock('$lib/utils/helpers', () => ({
 	formatNumber: vi.fn((num: number, decimals: number = 2) => {
 		return num.toFixed(decimals);
 	}),
+	toDisplayPrice: vi.fn((ratio: number, inverted: boolean) =>
+		inverted && ratio !== 0 ? 1 / ratio : ratio
+	),
+	formatPriceUnit: vi.fn((symbols: { input: string | null; output: string | null }, inverted) =>
+		inverted ? `${symbols.output} per ${symbols.input}` : `${symbols.input} per ${symbols.output}`
+	),
 	debounce: vi.fn((fn: () => void) => {
 		return fn;
 	})
@@ -53,9 +59,9 @@ vi.mock('$lib/components/ui/Icon.svelte', () => ({
 }));
 
 const validGridLevels: GridLevel[] = [
-	{ level: -1, price: 100, total: 1000, amount: 10 },
-	{ level: -2, price: 95, total: 950, amount: 10 },
-	{ level: -3, price: 90, total: 900, amount: 10 }
+	{ level: -1, side: 'sell', price: 100, total: 1000, amount: 10 },
+	{ level: -2, side: 'sell', price: 95, total: 950, amount: 10 },
+	{ level: -3, side: 'sell', price: 90, total: 900, amount: 10 }
 ];
 
 beforeEach(() => {
@@ -134,6 +140,26 @@ describe('GridVisualization Component', () => {
 		expect(screen.getByText('Gap from Prev')).toBeInTheDocument();
 	});
 
+	it('labels the breakdown by price step for arithmetic spacing', async () => {
+		const arithmeticLevels: GridLevel[] = [
+			{ level: 1, side: 'sell', price: 1, total: 100, amount: 100 },
+			{ level: 2, side: 'sell', price: 1.01, total: 101, amount: 100 }
+		];
+
+		render(GridVisualization, {
+			props: { gridLevels: arithmeticLevels, spacingMode: 'arithmetic' }
+		});
+
+		await tick();
+
+		await waitFor(() => {
+			expect(screen.getByText('Step from Prev')).toBeInTheDocument();
+		});
+
+		expect(screen.queryByText('Gap from Prev')).not.toBeInTheDocument();
+		expect(screen.getByText('+$0.010000')).toBeInTheDocument();
+	});
+
 	it('shows total capital calculation in table footer', async () => {
 		render(GridVisualization, {
 			props: { gridLevels: validGridLevels }
@@ -184,7 +210,7 @@ describe('GridVisualization Component', () => {
 
 	it('formats numbers correctly using formatNumber helper', async () => {
 		const testGridLevels: GridLevel[] = [
-			{ level: -1, price: 123.456789, total: 1000.123456, amount: 10 }
+			{ level: -1, side: 'sell', price: 123.456789, total: 1000.123456, amount: 10 }
 		];
 
 		render(GridVisualization, {
@@ -211,6 +237,27 @@ describe('GridVisualization Component', () => {
 		});
 	});
 
+	it('labels buy and sell levels separately for two-sided grids', async () => {
+		const twoSidedLevels: GridLevel[] = [
+			{ level: -2, side: 'buy', price: 0.8, total: 50, amount: 62.5 },
+			{ level: -1, side: 'buy', price: 0.9, total: 50, amount: 55.5 },
+			{ level: 1, side: 'sell', price: 1, total: 100, amount: 100 }
+		];
+
+		render(GridVisualization, {
+			props: { gridLevels: twoSidedLevels }
+		});
+
+		await tick();
+
+		await waitFor(() => {
+			expect(screen.getByText('Buy 2')).toBeInTheDocument();
+			expect(screen.getByText('Buy 1')).toBeInTheDocument();
+			expect(screen.getByText('Sell 1')).toBeInTheDocument();
+		});
+		expect(screen.queryByText('Level 1')).not.toBeInTheDocument();
+	});
+
 	it('handles empty grid levels array', async () => {
 		render(GridVisualization, {
 			props: { gridLevels: [] }
@@ -225,9 +272,9 @@ describe('GridVisualization Component', () => {
 
 	it('validates grid level data correctly', async () => {
 		const mixedGridLevels: GridLevel[] = [
-			{ level: -1, price: 100, total: 1000, amount: 10 },
-			{ level: -2, price: -95, total: 950, amount: 10 },
-			{ level: -3, price: 90, total: 900, amount: 10 }
+			{ level: -1, side: 'sell', price: 100, total: 1000, amount: 10 },
+			{ level: -2, side: 'sell', price: -95, total: 950, amount: 10 },
+			{ level: -3, side: 'sell', price: 90, total: 900, amount: 10 }
 		];
 
 		render(GridVisualization, {
@@ -314,4 +361,23 @@ describe('GridVisualization Component', () => {
 			expect(screen.getByText('5.6%')).toBeInTheDocument();
 		});
 	});
+
+	it('shows prices as output per input when inverted', async () => {
+		render(GridVisualization, {
+			props: {
+				gridLevels: validGridLevels,
+				invertPrices: true,
+				symbols: { input: 'USDC', output: 'WFLR' }
+			}
+		});
+
+		await tick();
+
+		await waitFor(() => {
+			expect(screen.getByText('0.010000')).toBeInTheDocument();
+			expect(screen.getByText('0.011111')).toBeInTheDocument();
+		});
+		expect(screen.queryByText('$100.000000')).not.toBeInTheDocument();
+		expect(screen.getByTestId('grid-price-unit')).toHaveTextContent('WFLR per USDC');
+	});
 });
@@ -0,0 +1,51 @@
+import { render, screen, fireEvent, waitFor } from '@testing-library/svelte';
+import { beforeEach, describe, it, expect, vi } from 'vitest';
+import CustomStrategyLoader from './CustomStrategyLoader.svelte';
+import { cleanupMocks } from '$lib/utils/tests/utilities';
+
+describe('CustomStrategyLoader', () => {
+	beforeEach(() => {
+		cleanupMocks();
+	});
+
+	it('dispatches load with the entered URL', async () => {
+		const handleLoad = vi.fn();
+		render(CustomStrategyLoader, { props: {}, events: { load: handleLoad } });
+
+		const loadButton = screen.getByRole('button', { name: 'Load URL' });
+		expect(loadButton).toBeDisabled();
+
+		await fireEvent.input(screen.getByPlaceholderText('https://example.com/strategy.rain'), {
+			target: { value: ' https://example.com/auction.rain ' }
+		});
+		await fireEvent.click(loadButton);
+
+		expect(handleLoad).toHaveBeenCalledTimes(1);
+		expect(handleLoad.mock.calls[0][0].detail).toEqual({
+			source: 'https://example.com/auction.rain',
+			dotrain: null
+		});
+	});
+
+	it('dispatches load with the uploaded file contents', async () => {
+		const handleLoad = vi.fn();
+		render(CustomStrategyLoader, { props: {}, events: { load: handleLoad } });
+
+		const file = { name: 'auction.rain', text: () => Promise.resolve('gui:\n  name: Auction') };
+		await fireEvent.change(screen.getByTestId('strategy-file-input'), {
+			target: { files: [file] }
+		});
+
+		await waitFor(() => expect(handleLoad).toHaveBeenCalledTimes(1));
+		expect(handleLoad.mock.calls[0][0].detail).toEqual({
+			source: 'auction.rain',
+			dotrain: 'gui:\n  name: Auction'
+		});
+	});
+
+	it('shows load errors', () => {
+		render(CustomStrategyLoader, { error: 'Strategy does not declare any deployments' });
+
+		expect(screen.getByText('Strategy does not declare any deployments')).toBeInTheDocument();
+	});
+});
@@ -0,0 +1,78 @@
+import { render, screen, fireEvent, waitFor } from '@testing-library/svelte';
+import { beforeEach, describe, it, expect, vi } from 'vitest';
+import DotrainEditor from './DotrainEditor.svelte';
+import { cleanupMocks } from '$lib/utils/tests/utilities';
+
+const validCheck = {
+	name: 'Auction Sell',
+	deployments: ['flare', 'base'],
+	detailsError: null,
+	deploymentsError: null
+};
+
+describe('DotrainEditor', () => {
+	beforeEach(() => {
+		cleanupMocks();
+	});
+
+	it('dispatches change as the document is edited', async () => {
+		const handleChange = vi.fn();
+		render(DotrainEditor, { props: {}, events: { change: handleChange } });
+
+		await fireEvent.input(screen.getByTestId('dotrain-editor-input'), {
+			target: { value: 'gui:\n  name: Auction' }
+		});
+
+		expect(handleChange).toHaveBeenCalledTimes(1);
+		expect(handleChange.mock.calls[0][0].detail).toBe('gui:\n  name: Auction');
+	});
+
+	it('loads uploaded files into the editor', async () => {
+		const handleChange = vi.fn();
+		render(DotrainEditor, { props: {}, events: { change: handleChange } });
+
+		const file = { name: 'auction.rain', text: () => Promise.resolve('gui:\n  name: Auction') };
+		await fireEvent.change(screen.getByTestId('dotrain-editor-file-input'), {
+			target: { files: [file] }
+		});
+
+		await waitFor(() => expect(handleChange).toHaveBeenCalledTimes(1));
+		expect(screen.getByTestId('dotrain-editor-input')).toHaveValue('gui:\n  name: Auction');
+	});
+
+	it('shows parse errors inline and blocks applying', () => {
+		render(DotrainEditor, {
+			value: 'gui:',
+			check: {
+				name: null,
+				deployments: [],
+				detailsError: 'Missing field: name',
+				deploymentsError: 'Unknown network: flare'
+			}
+		});
+
+		expect(screen.getByText('Missing field: name')).toBeInTheDocument();
+		expect(screen.getByText('Unknown network: flare')).toBeInTheDocument();
+		expect(screen.getByRole('button', { name: 'Use this document' })).toBeDisabled();
+	});
+
+	it('dispatches apply for a document that parses', async () => {
+		const handleApply = vi.fn();
+		render(DotrainEditor, {
+			props: { value: 'gui:\n  name: Auction Sell', check: validCheck },
+			events: { apply: handleApply }
+		});
+
+		expect(screen.getByText('✓ Auction Sell · deployments: flare, base')).toBeInTheDocument();
+		await fireEvent.click(screen.getByRole('button', { name: 'Use this document' }));
+
+		expect(handleApply.mock.calls[0][0].detail).toBe('gui:\n  name: Auction Sell');
+	});
+
+	it('waits for the check before applying', () => {
+		render(DotrainEditor, { value: 'gui:', check: validCheck, isChecking: true });
+
+		expect(screen.getByText('Checking document...')).toBeInTheDocument();
+		expect(screen.getByRole('button', { name: 'Use this document' })).toBeDisabled();
+	});
+});
@@ -0,0 +1,46 @@
+import { render, screen } from '@testing-library/svelte';
+import { tick } from 'svelte';
+import { beforeEach, describe, it, expect } from 'vitest';
+import DynamicFieldInput from './DynamicFieldInput.svelte';
+import { strategyStore } from '$lib/stores/strategy';
+import { cleanupMocks, createMockFieldDefinition } from '$lib/utils/tests/utilities';
+
+describe('DynamicFieldInput', () => {
+	beforeEach(() => {
+		cleanupMocks();
+		strategyStore.reset();
+	});
+
+	function renderField() {
+		render(DynamicFieldInput, {
+			fieldDefinition: createMockFieldDefinition({ binding: 'tranche-size', name: 'Tranche Size' }),
+			session: null
+		});
+		return screen.getByPlaceholderText(/./) as HTMLInputElement;
+	}
+
+	it('shows values set in the store', async () => {
+		const input = renderField();
+
+		strategyStore.setFieldValue('tranche-size', '100');
+		await tick();
+
+		expect(input.value).toBe('100');
+	});
+
+	it('clears the input when the stored value is cleared or reset', async () => {
+		const input = renderField();
+
+		strategyStore.setFieldValue('tranche-size', '100');
+		await tick();
+		strategyStore.setFieldValue('tranche-size', '');
+		await tick();
+		expect(input.value).toBe('');
+
+		strategyStore.setFieldValue('tranche-size', '50');
+		await tick();
+		strategyStore.reset();
+		await tick();
+		expect(input.value).toBe('');
+	});
+});
@@ -0,0 +1,52 @@
+import { render, screen, fireEvent } from '@testing-library/svelte';
+import { beforeEach, describe, it, expect, vi } from 'vitest';
+import StrategySelector from './StrategySelector.svelte';
+import { cleanupMocks } from '$lib/utils/tests/utilities';
+import type { StrategyType } from '$lib/strategies';
+
+describe('StrategySelector', () => {
+	beforeEach(() => {
+		cleanupMocks();
+	});
+
+	const mockStrategies: Array<{ key: StrategyType; name: string; description: string }> = [
+		{ key: 'grid', name: 'Grid', description: 'Orders at fixed price intervals' },
+		{ key: 'dca', name: 'DCA', description: 'Fixed buys on a schedule' }
+	];
+
+	it('renders every registered strategy', () => {
+		render(StrategySelector, { strategies: mockStrategies, selected: 'grid' });
+
+		expect(screen.getAllByRole('button')).toHaveLength(2);
+		expect(screen.getByText('Orders at fixed price intervals')).toBeInTheDocument();
+		expect(screen.getByText('Fixed buys on a schedule')).toBeInTheDocument();
+	});
+
+	it('highlights the selected strategy', () => {
+		render(StrategySelector, { strategies: mockStrategies, selected: 'dca' });
+
+		expect(screen.getByRole('button', { name: /DCA/ })).toHaveClass('border-blue-500');
+		expect(screen.getByRole('button', { name: /Grid/ })).toHaveClass('border-gray-200');
+	});
+
+	it('dispatches change only for a different strategy', async () => {
+		const handleChange = vi.fn();
+		render(StrategySelector, {
+			props: { strategies: mockStrategies, selected: 'grid' },
+			events: { change: handleChange }
+		});
+
+		await fireEvent.click(screen.getByRole('button', { name: /Grid/ }));
+		expect(handleChange).not.toHaveBeenCalled();
+
+		await fireEvent.click(screen.getByRole('button', { name: /DCA/ }));
+		expect(handleChange).toHaveBeenCalledTimes(1);
+		expect(handleChange.mock.calls[0][0].detail).toBe('dca');
+	});
+
+	it('disables selection while loading', () => {
+		render(StrategySelector, { strategies: mockStrategies, selected: 'grid', disabled: true });
+
+		screen.getAllByRole('button').forEach((button) => expect(button).toBeDisabled());
+	});
+});
@@ -0,0 +1,50 @@
+import { render, screen, fireEvent } from '@testing-library/svelte';
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import CustomLadderSection from './CustomLadderSection.svelte';
+import { priceDisplayStore } from '$lib/stores/priceDisplay';
+
+describe('CustomLadderSection', () => {
+	afterEach(() => {
+		priceDisplayStore.setInverted(false);
+	});
+
+	it('shows saved prices in the chosen direction', () => {
+		priceDisplayStore.setInverted(true);
+		render(CustomLadderSection, { value: '0.025,100\n0.03,150' });
+
+		expect(screen.getByLabelText('Price of level 1')).toHaveValue('40');
+		expect(screen.getByLabelText('Price of level 2')).toHaveValue('33.333333333333333333');
+	});
+
+	it('saves inverted prices back as io ratios and keeps untouched levels exact', async () => {
+		priceDisplayStore.setInverted(true);
+		const handleChange = vi.fn();
+		render(CustomLadderSection, {
+			props: { value: '0.025,100\n0.03,150' },
+			events: { change: handleChange }
+		});
+
+		await fireEvent.input(screen.getByLabelText('Price of level 1'), { target: { value: '50' } });
+
+		expect(handleChange.mock.calls[0][0].detail).toEqual([
+			{ price: '0.02', amount: '100' },
+			{ price: '0.03', amount: '150' }
+		]);
+	});
+
+	it('reads imported prices in the chosen direction', async () => {
+		priceDisplayStore.setInverted(true);
+		const handleChange = vi.fn();
+		render(CustomLadderSection, { events: { change: handleChange } });
+
+		await fireEvent.input(screen.getByTestId('ladder-csv-input'), {
+			target: { value: '40,100\n50,150' }
+		});
+		await fireEvent.click(screen.getByTestId('ladder-import'));
+
+		expect(handleChange.mock.calls[0][0].detail).toEqual([
+			{ price: '0.025', amount: '100' },
+			{ price: '0.02', amount: '150' }
+		]);
+	});
+});
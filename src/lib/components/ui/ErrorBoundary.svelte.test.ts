@@ -0,0 +1,47 @@
+import { render, screen, fireEvent } from '@testing-library/svelte';
+import { describe, it, expect, vi } from 'vitest';
+import ErrorBoundary from './ErrorBoundary.svelte';
+import { createAppError } from '$lib/utils/errors';
+
+describe('ErrorBoundary', () => {
+	it('renders the message, recovery hints and details', () => {
+		render(ErrorBoundary, {
+			error: createAppError('GUI_ERROR', { details: 'Missing deposit token' })
+		});
+
+		expect(
+			screen.getByText('The strategy could not process this configuration.')
+		).toBeInTheDocument();
+		expect(screen.getByText('Review the highlighted values')).toBeInTheDocument();
+		expect(screen.getByText('GUI_ERROR: Missing deposit token')).toBeInTheDocument();
+		expect(screen.getByRole('button', { name: 'Retry' })).toBeInTheDocument();
+	});
+
+	it('hides retry for errors that need another action first', () => {
+		render(ErrorBoundary, { error: createAppError('VALIDATION_FAILED') });
+
+		expect(screen.queryByRole('button', { name: 'Retry' })).not.toBeInTheDocument();
+	});
+
+	it('dispatches retry for errors that can be retried', async () => {
+		const handleRetry = vi.fn();
+		render(ErrorBoundary, {
+			props: { error: createAppError('RPC_TIMEOUT') },
+			events: { retry: handleRetry }
+		});
+
+		await fireEvent.click(screen.getByRole('button', { name: 'Retry' }));
+
+		expect(handleRetry).toHaveBeenCalledTimes(1);
+	});
+
+	it('shows inline without the full screen container', () => {
+		const { container } = render(ErrorBoundary, {
+			error: createAppError('GUI_ERROR'),
+			fullScreen: false
+		});
+
+		expect(container.querySelector('.min-h-screen')).toBeNull();
+		expect(screen.getByTestId('error-boundary')).toBeInTheDocument();
+	});
+});
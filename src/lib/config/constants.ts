@@ -88,3 +88,15 @@ export const DEFAULT_DEPLOYMENT = 'flare';
  */
 export const GRID_STRATEGY_PATH =
 	'https://raw.githubusercontent.com/rainlanguage/rain.strategies/9e24aef2dd972a63b35cf59d8ab91ed2a9b01c69/src/grid.rain';
+
+/**
+ * DCA strategy dotrain file path
+ */
+export const DCA_STRATEGY_PATH =
+	'https://raw.githubusercontent.com/rainlanguage/rain.strategies/9e24aef2dd972a63b35cf59d8ab91ed2a9b01c69/src/auction-dca.rain';
+
+/**
+ * Fetch pinned strategy sources on load instead of using the bundled copies. The remote file is
+ * only used when it matches the pinned hash.
+ */
+export const REFRESH_STRATEGY_SOURCES = false;
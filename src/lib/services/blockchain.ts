@@ -1,6 +1,7 @@
-import { sendTransaction } from '@wagmi/core';
+import { getPublicClient, sendTransaction } from '@wagmi/core';
 import { config } from '$lib/config/wagmi';
 import type { Hex } from 'viem';
+import type { OnchainClient } from './onchainValidation';
 
 /**
  * Send a blockchain transaction
@@ -17,7 +18,9 @@ export async function sendBlockchainTransaction(data: Hex, to: `0x${string}`): P
 		return hash;
 	} catch (error) {
 		console.error('Transaction failed:', error);
-		throw new Error(error instanceof Error ? error.message : 'Transaction failed');
+		throw new Error(error instanceof Error ? error.message : 'Transaction failed', {
+			cause: error
+		});
 	}
 }
 
@@ -36,7 +39,8 @@ export async function sendApprovalTransaction(
 	} catch (error) {
 		console.error('Approval transaction failed:', error);
 		throw new Error(
-			error instanceof Error ? `Approval failed: ${error.message}` : 'Token approval failed'
+			error instanceof Error ? `Approval failed: ${error.message}` : 'Token approval failed',
+			{ cause: error }
 		);
 	}
 }
@@ -56,7 +60,17 @@ export async function sendDeploymentTransaction(
 	} catch (error) {
 		console.error('Deployment transaction failed:', error);
 		throw new Error(
-			error instanceof Error ? `Deployment failed: ${error.message}` : 'Strategy deployment failed'
+			error instanceof Error ? `Deployment failed: ${error.message}` : 'Strategy deployment failed',
+			{ cause: error }
 		);
 	}
 }
+
+/**
+ * Get a read-only client for a chain, for on-chain validation
+ * @param chainId - Chain to read from, the connected chain when omitted
+ * @returns Public client, or undefined when the chain is not configured
+ */
+export function getReadClient(chainId?: number): OnchainClient | undefined {
+	return getPublicClient(config, { chainId }) as OnchainClient | undefined;
+}
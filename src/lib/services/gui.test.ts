@@ -25,14 +25,13 @@ import {
 	handleGuiInitialization,
 	loadStrategyDetails,
 	loadDeploymentDetails,
-	getComposedRainlang,
-	prepareDeploymentTransaction
+	prepareLadderDeploymentTransactions,
+	GuiSessionError,
+	OrderGuiSession,
+	type OrderGuiInstance
 } from './gui';
 import { DotrainOrderGui } from '@rainlanguage/orderbook';
-import type {
-	DotrainOrderGui as DotrainOrderGuiType,
-	NameAndDescriptionCfg
-} from '@rainlanguage/orderbook';
+import type { NameAndDescriptionCfg } from '@rainlanguage/orderbook';
 
 const MockDotrainOrderGui = vi.mocked(DotrainOrderGui, true);
 
@@ -94,6 +93,7 @@ describe('GUI Service', () => {
 
 			expect(result.gui).toBe(mockGuiInstance);
 			expect(result.error).toBeNull();
+			expect(result.restoreError).toBeNull();
 			expect(mockGuiInstance.deserializeState).toHaveBeenCalledWith(
 				mockDotrain,
 				mockStateFromUrl,
@@ -118,6 +118,8 @@ describe('GUI Service', () => {
 
 			expect(result.gui).toBe(mockGuiInstance);
 			expect(result.error).toBeNull();
+			expect(result.restoreError).toContain('could not be restored');
+			expect(result.restoreError).toContain('Invalid state');
 			expect(mockGuiInstance.deserializeState).toHaveBeenCalled();
 			expect(mockGuiInstance.chooseDeployment).toHaveBeenCalled();
 		});
@@ -317,7 +319,7 @@ describe('GUI Service', () => {
 
 			mockGuiInstance.getComposedRainlang.mockResolvedValue(mockResult);
 
-			const result = await getComposedRainlang(mockGuiInstance as unknown as DotrainOrderGuiType);
+			const result = await new OrderGuiSession(mockGuiInstance).getComposedRainlang();
 
 			expect(result).toBe(mockRainlang);
 			expect(mockGuiInstance.getComposedRainlang).toHaveBeenCalled();
@@ -327,21 +329,24 @@ describe('GUI Service', () => {
 			const mockError = { error: { msg: 'Composition failed' } };
 			mockGuiInstance.getComposedRainlang.mockResolvedValue(mockError);
 
-			await expect(
-				getComposedRainlang(mockGuiInstance as unknown as DotrainOrderGuiType)
-			).rejects.toThrow('Composition failed');
+			const error = await new OrderGuiSession(mockGuiInstance)
+				.getComposedRainlang()
+				.catch((e) => e);
+
+			expect(error).toBeInstanceOf(GuiSessionError);
+			expect(error.message).toBe('Composition failed');
 		});
 
 		it('should handle exceptions during Rainlang composition', async () => {
 			mockGuiInstance.getComposedRainlang.mockRejectedValue(new Error('Syntax error'));
 
-			await expect(
-				getComposedRainlang(mockGuiInstance as unknown as DotrainOrderGuiType)
-			).rejects.toThrow('Syntax error');
+			await expect(new OrderGuiSession(mockGuiInstance).getComposedRainlang()).rejects.toThrow(
+				'Syntax error'
+			);
 		});
 	});
 
-	describe('prepareDeploymentTransaction', () => {
+	describe('getDeploymentTransactionArgs', () => {
 		it('should prepare deployment transaction successfully', async () => {
 			const mockTransactionArgs = {
 				calldata: '0xdeadbeef',
@@ -355,8 +360,7 @@ describe('GUI Service', () => {
 
 			mockGuiInstance.getDeploymentTransactionArgs.mockResolvedValue(mockResult);
 
-			const result = await prepareDeploymentTransaction(
-				mockGuiInstance as unknown as DotrainOrderGuiType,
+			const result = await new OrderGuiSession(mockGuiInstance).getDeploymentTransactionArgs(
 				mockAddress
 			);
 
@@ -369,8 +373,8 @@ describe('GUI Service', () => {
 			mockGuiInstance.getDeploymentTransactionArgs.mockResolvedValue(mockError);
 
 			await expect(
-				prepareDeploymentTransaction(mockGuiInstance as unknown as DotrainOrderGuiType, mockAddress)
-			).rejects.toThrow('Invalid parameters');
+				new OrderGuiSession(mockGuiInstance).getDeploymentTransactionArgs(mockAddress)
+			).rejects.toThrow(GuiSessionError);
 		});
 
 		it('should handle invalid address format', async () => {
@@ -380,14 +384,247 @@ describe('GUI Service', () => {
 			mockGuiInstance.getDeploymentTransactionArgs.mockResolvedValue(mockError);
 
 			await expect(
-				prepareDeploymentTransaction(
-					mockGuiInstance as unknown as DotrainOrderGuiType,
-					invalidAddress
-				)
+				new OrderGuiSession(mockGuiInstance).getDeploymentTransactionArgs(invalidAddress)
 			).rejects.toThrow('Invalid address format');
 		});
 	});
 
+	describe('prepareLadderDeploymentTransactions', () => {
+		const levels = [
+			{ price: '0.5', amount: '100' },
+			{ price: '0.6', amount: '50' }
+		];
+
+		beforeEach(() => {
+			mockGuiInstance.saveFieldValues = vi.fn().mockReturnValue({ value: undefined });
+			mockGuiInstance.saveDeposit.mockReturnValue({ value: undefined });
+			mockGuiInstance.removeDeposit.mockReturnValue({ value: undefined });
+			mockGuiInstance.getAllFieldValues = vi.fn().mockReturnValue({
+				value: [
+					{ field: 'baseline-io-ratio', value: '0.5' },
+					{ field: 'io-ratio-growth', value: '0.2' },
+					{ field: 'tranche-size', value: '10' }
+				]
+			});
+			mockGuiInstance.getDeposits.mockReturnValue({ value: [{ token: 'token1', amount: '150' }] });
+		});
+
+		it('should prepare one deployment per level', async () => {
+			mockGuiInstance.getDeploymentTransactionArgs
+				.mockResolvedValueOnce({ value: { deploymentCalldata: '0x01', approvals: [] } })
+				.mockResolvedValueOnce({ value: { deploymentCalldata: '0x02', approvals: [] } });
+
+			const result = await prepareLadderDeploymentTransactions(
+				new OrderGuiSession(mockGuiInstance),
+				mockAddress,
+				levels,
+				'token1'
+			);
+
+			expect(result.map((args: any) => args.deploymentCalldata)).toEqual(['0x01', '0x02']);
+			expect(mockGuiInstance.saveFieldValues).toHaveBeenNthCalledWith(2, [
+				{ binding: 'baseline-io-ratio', value: '0.6' },
+				{ binding: 'tranche-size', value: '50' }
+			]);
+			expect(mockGuiInstance.saveDeposit).toHaveBeenNthCalledWith(1, 'token1', '100');
+			expect(mockGuiInstance.saveDeposit).toHaveBeenNthCalledWith(2, 'token1', '50');
+		});
+
+		it('should restore the GUI fields and deposit afterwards', async () => {
+			mockGuiInstance.getDeploymentTransactionArgs.mockResolvedValue({
+				value: { deploymentCalldata: '0x01', approvals: [] }
+			});
+
+			await prepareLadderDeploymentTransactions(
+				new OrderGuiSession(mockGuiInstance),
+				mockAddress,
+				levels,
+				'token1'
+			);
+
+			expect(mockGuiInstance.saveFieldValues).toHaveBeenLastCalledWith([
+				{ binding: 'baseline-io-ratio', value: '0.5' },
+				{ binding: 'tranche-size', value: '10' }
+			]);
+			expect(mockGuiInstance.saveDeposit).toHaveBeenLastCalledWith('token1', '150');
+		});
+
+		it('should remove a deposit that was not saved before', async () => {
+			mockGuiInstance.getDeposits.mockReturnValue({ value: [] });
+			mockGuiInstance.getDeploymentTransactionArgs.mockResolvedValue({
+				value: { deploymentCalldata: '0x01', approvals: [] }
+			});
+
+			await prepareLadderDeploymentTransactions(
+				new OrderGuiSession(mockGuiInstance),
+				mockAddress,
+				levels,
+				'token1'
+			);
+
+			expect(mockGuiInstance.removeDeposit).toHaveBeenCalledWith('token1');
+		});
+
+		it('should stop at the first level the GUI rejects', async () => {
+			mockGuiInstance.saveDeposit.mockReturnValue({ error: { msg: 'Invalid deposit' } });
+
+			await expect(
+				prepareLadderDeploymentTransactions(
+					new OrderGuiSession(mockGuiInstance),
+					mockAddress,
+					levels,
+					'token1'
+				)
+			).rejects.toThrow('Invalid deposit');
+			expect(mockGuiInstance.getDeploymentTransactionArgs).not.toHaveBeenCalled();
+			expect(mockGuiInstance.saveFieldValues).toHaveBeenLastCalledWith([
+				{ binding: 'baseline-io-ratio', value: '0.5' },
+				{ binding: 'tranche-size', value: '10' }
+			]);
+		});
+	});
+
+	describe('OrderGuiSession', () => {
+		const inputs = [{ token: { key: 'token1', address: '0xa' } }];
+		const outputs = [{ token: { key: 'token2', address: '0xb' } }];
+
+		function createFakeGui(overrides: Partial<Record<keyof OrderGuiInstance, unknown>> = {}) {
+			const ok = (value: unknown) => ({ value });
+			return {
+				getSelectTokens: vi.fn(() => ok([{ key: 'token1' }, { key: 'token2' }])),
+				getNetworkKey: vi.fn(() => ok('flare')),
+				areAllTokensSelected: vi.fn(() => ok(true)),
+				getAllTokenInfos: vi.fn(async () => ok([{ address: '0xa', decimals: 18 }])),
+				getAllFieldDefinitions: vi.fn((withDefaults: boolean) =>
+					ok([{ binding: withDefaults ? 'tranche-size' : 'baseline-io-ratio' }])
+				),
+				getCurrentDeployment: vi.fn(() =>
+					ok({
+						deployment: {
+							order: {
+								inputs,
+								outputs,
+								orderbook: { address: '0xorderbook' },
+								network: { chainId: 14 }
+							}
+						},
+						deposits: [{ token: 'token2' }]
+					})
+				),
+				hasAnyDeposit: vi.fn(() => ok(false)),
+				hasAnyVaultId: vi.fn(() => ok(true)),
+				getAllFieldValues: vi.fn(() => ok([{ field: 'tranche-size', value: '10' }])),
+				getDeposits: vi.fn(() => ok([{ token: 'token2', amount: '100' }])),
+				saveFieldValue: vi.fn(() => ok(undefined)),
+				saveDeposit: vi.fn(() => ok(undefined)),
+				serializeState: vi.fn(() => ok('state')),
+				...overrides
+			} as unknown as OrderGuiInstance;
+		}
+
+		it('should read a snapshot with the deployment once all tokens are selected', async () => {
+			const snapshot = await new OrderGuiSession(createFakeGui()).getSnapshot();
+
+			expect(snapshot).toEqual({
+				selectTokens: [{ key: 'token1' }, { key: 'token2' }],
+				networkKey: 'flare',
+				allTokensSelected: true,
+				deployment: {
+					allTokenInfos: [{ address: '0xa', decimals: 18 }],
+					fieldDefinitions: [{ binding: 'baseline-io-ratio' }],
+					fieldDefinitionsWithDefaults: [{ binding: 'tranche-size' }],
+					deposits: [{ token: 'token2' }],
+					tokenInputs: inputs,
+					tokenOutputs: outputs,
+					orderbookAddress: '0xorderbook',
+					chainId: 14,
+					hasDepositsOrVaultIds: true
+				}
+			});
+		});
+
+		it('should leave out the deployment while tokens are missing', async () => {
+			const gui = createFakeGui({ areAllTokensSelected: vi.fn(() => ({ value: false })) });
+
+			const snapshot = await new OrderGuiSession(gui).getSnapshot();
+
+			expect(snapshot.allTokensSelected).toBe(false);
+			expect(snapshot.deployment).toBeNull();
+			expect(gui.getCurrentDeployment).not.toHaveBeenCalled();
+		});
+
+		it('should treat a failed deposit check as no saved vaults', async () => {
+			const gui = createFakeGui({
+				hasAnyDeposit: vi.fn(() => ({ error: { msg: 'Deposits unavailable' } }))
+			});
+
+			const snapshot = await new OrderGuiSession(gui).getSnapshot();
+
+			expect(snapshot.deployment?.hasDepositsOrVaultIds).toBe(false);
+		});
+
+		it('should raise a typed error naming the failed call', async () => {
+			const gui = createFakeGui({
+				getCurrentDeployment: vi.fn(() => ({ error: { msg: 'Deployment not found' } }))
+			});
+
+			const error = await new OrderGuiSession(gui).getSnapshot().catch((e) => e);
+
+			expect(error).toBeInstanceOf(GuiSessionError);
+			expect(error.operation).toBe('getCurrentDeployment');
+			expect(error.message).toBe('Deployment not found');
+		});
+
+		it('should key saved field values and deposits', () => {
+			const session = new OrderGuiSession(createFakeGui());
+
+			expect(session.getFieldValues()).toEqual({ 'tranche-size': '10' });
+			expect(session.getDeposits()).toEqual({ token2: '100' });
+		});
+
+		it('should throw when the GUI rejects a value', () => {
+			const session = new OrderGuiSession(
+				createFakeGui({ saveDeposit: vi.fn(() => ({ error: { msg: 'Invalid amount' } })) })
+			);
+
+			expect(() => session.saveDeposit('token2', 'abc')).toThrow(GuiSessionError);
+			expect(() => session.saveFieldValue('tranche-size', '10')).not.toThrow();
+		});
+
+		it('should read a single saved field value', () => {
+			const session = new OrderGuiSession(createFakeGui());
+
+			expect(session.getFieldValue('tranche-size')).toBe('10');
+			expect(session.getFieldValue('baseline-io-ratio')).toBeNull();
+		});
+
+		it('should save several field values at once', () => {
+			const saveFieldValues = vi.fn(() => ({ value: undefined }));
+			const session = new OrderGuiSession(createFakeGui({ saveFieldValues }));
+			const values = [{ binding: 'tranche-size', value: '20' }];
+
+			session.saveFieldValues(values);
+
+			expect(saveFieldValues).toHaveBeenCalledWith(values);
+		});
+
+		it('should read and set vault ids', () => {
+			const vaultIds = new Map([['input', ['1']]]);
+			const setVaultId = vi.fn(() => ({ value: undefined }));
+			const session = new OrderGuiSession(
+				createFakeGui({ getVaultIds: vi.fn(() => ({ value: vaultIds })), setVaultId })
+			);
+
+			expect(session.getVaultIds()).toBe(vaultIds);
+			session.setVaultId(true, 0, '2');
+			expect(setVaultId).toHaveBeenCalledWith(true, 0, '2');
+		});
+
+		it('should serialize the GUI state', () => {
+			expect(new OrderGuiSession(createFakeGui()).serializeState()).toBe('state');
+		});
+	});
+
 	describe('Error Handling and Edge Cases', () => {
 		it('should handle strategy details error', async () => {
 			const mockError = {
@@ -451,14 +688,16 @@ describe('GUI Service', () => {
 			const rainlangResult = { error: null, value: mockRainlang };
 			mockGuiInstance.getComposedRainlang.mockResolvedValue(rainlangResult);
 
-			const rainlang = await getComposedRainlang(guiResult.gui!);
+			const session = new OrderGuiSession(guiResult.gui!);
+
+			const rainlang = await session.getComposedRainlang();
 			expect(rainlang).toBe(mockRainlang);
 
 			const mockTxArgs = { calldata: '0xdeadbeef' };
 			const txResult = { error: null, value: mockTxArgs };
 			mockGuiInstance.getDeploymentTransactionArgs.mockResolvedValue(txResult);
 
-			const txArgs = await prepareDeploymentTransaction(guiResult.gui!, mockAddress);
+			const txArgs = await session.getDeploymentTransactionArgs(mockAddress);
 			expect(txArgs).toBe(mockTxArgs);
 		});
 
@@ -1,5 +1,19 @@
 import { DotrainOrderGui } from '@rainlanguage/orderbook';
-import type { DotrainOrderGui as DotrainOrderGuiType, WasmEncodedResult } from '$lib/types';
+import type {
+	DeploymentTransactionArgs,
+	DotrainOrderGui as DotrainOrderGuiType,
+	GuiDepositCfg,
+	GuiDeploymentSnapshot,
+	GuiFieldDefinitionCfg,
+	GuiInitializationResult,
+	GuiSelectTokensCfg,
+	GuiSnapshot,
+	OrderIOCfg,
+	TokenInfo,
+	WasmEncodedResult
+} from '$lib/types';
+import type { Hex } from 'viem';
+import type { LadderEntry } from '$lib/strategies';
 
 /**
  * Initialize GUI with enhanced error handling and token pre-population
@@ -7,7 +21,9 @@ import type { DotrainOrderGui as DotrainOrderGuiType, WasmEncodedResult } from '
  * @param deploymentKey - Selected deployment network
  * @param stateFromUrl - Optional serialized state from URL
  * @param pushGuiStateToUrlHistory - Function to update URL with state
- * @returns Promise resolving to GUI instance and error status
+ * @returns Promise resolving to GUI instance and error status. When the state from the URL can't
+ * be restored, e.g. because the strategy changed since it was saved, the GUI starts from the
+ * deployment defaults and `restoreError` says why.
  */
 export async function handleGuiInitialization(
 	dotrain: string,
@@ -15,7 +31,9 @@ export async function handleGuiInitialization(
 	stateFromUrl: string | null,
 	// eslint-disable-next-line @typescript-eslint/no-explicit-any
 	pushGuiStateToUrlHistory: (...args: any[]) => void
-): Promise<{ gui: DotrainOrderGuiType | null; error: string | null }> {
+): Promise<GuiInitializationResult> {
+	let restoreError: string | null = null;
+
 	try {
 		console.log('Initializing GUI with deployment:', deploymentKey);
 
@@ -28,7 +46,8 @@ export async function handleGuiInitialization(
 				if (result.error) {
 					throw new Error(result.error.msg);
 				}
-			} catch {
+			} catch (error) {
+				restoreError = `The saved configuration could not be restored, the strategy may have changed since it was shared (${error instanceof Error ? error.message : 'unknown error'})`;
 				result = await gui.chooseDeployment(dotrain, deploymentKey, pushGuiStateToUrlHistory);
 				if (result.error) {
 					throw new Error(result.error.msg);
@@ -41,12 +60,13 @@ export async function handleGuiInitialization(
 			}
 		}
 
-		return { gui, error: null };
+		return { gui, error: null, restoreError };
 	} catch (error) {
 		console.error('GUI initialization failed:', error);
 		return {
 			gui: null,
-			error: error instanceof Error ? error.message : 'Could not initialize deployment form.'
+			error: error instanceof Error ? error.message : 'Could not initialize deployment form.',
+			restoreError
 		};
 	}
 }
@@ -90,38 +110,299 @@ export async function loadDeploymentDetails(dotrain: string) {
 }
 
 /**
- * Get composed Rainlang code from GUI
- * @param gui - DotrainOrderGui instance
- * @returns Promise resolving to Rainlang code
+ * Prepare one deployment per ladder level
+ *
+ * A single grid order only holds geometric levels of one tranche size, so custom ladders and
+ * arithmetic grids deploy each level as its own order with the level's price as the baseline, its
+ * amount as the only tranche and the same amount deposited. The GUI's baseline, tranche size and
+ * deposit are restored afterwards, whether or not every level could be prepared.
+ * @param session - Session of the initialized GUI
+ * @param address - Wallet address
+ * @param levels - Ladder levels to deploy
+ * @param depositTokenKey - Key of the output token the levels sell
+ * @returns Promise resolving to transaction arguments for every level, in ladder order
  */
-export async function getComposedRainlang(gui: DotrainOrderGuiType): Promise<string> {
+export async function prepareLadderDeploymentTransactions(
+	session: OrderGuiSession,
+	address: string,
+	levels: LadderEntry[],
+	depositTokenKey: string
+): Promise<DeploymentTransactionArgs[]> {
+	const transactions: DeploymentTransactionArgs[] = [];
+	const restore = captureLadderFields(session, depositTokenKey);
+
 	try {
-		const result = await gui.getComposedRainlang();
-		if (result.error) {
-			throw new Error(result.error.msg);
+		for (const level of levels) {
+			session.saveFieldValues([
+				{ binding: 'baseline-io-ratio', value: level.price },
+				{ binding: 'tranche-size', value: level.amount }
+			]);
+			session.saveDeposit(depositTokenKey, level.amount);
+
+			transactions.push(await session.getDeploymentTransactionArgs(address));
 		}
-		return result.value;
-	} catch (error) {
-		console.error('Failed to get composed Rainlang:', error);
-		throw error;
+	} finally {
+		restore();
 	}
+
+	return transactions;
 }
 
 /**
- * Prepare deployment transaction arguments
- * @param gui - DotrainOrderGui instance
- * @param address - Wallet address
- * @returns Promise resolving to transaction arguments
+ * Read the fields and deposit a ladder deployment overwrites
+ * @returns Function writing them back, which logs rather than throws so the deployment's own
+ * error isn't replaced
  */
-export async function prepareDeploymentTransaction(gui: DotrainOrderGuiType, address: string) {
-	try {
-		const result = await gui.getDeploymentTransactionArgs(address);
+function captureLadderFields(session: OrderGuiSession, depositTokenKey: string) {
+	const fields = session.getFieldValues();
+	const savedFields = ['baseline-io-ratio', 'tranche-size']
+		.filter((binding) => fields[binding] !== undefined)
+		.map((binding) => ({ binding, value: fields[binding] }));
+	const savedDeposit = session.getDeposits()[depositTokenKey];
+
+	return () => {
+		try {
+			session.saveFieldValues(savedFields);
+			if (savedDeposit !== undefined) {
+				session.saveDeposit(depositTokenKey, savedDeposit);
+			} else {
+				session.removeDeposit(depositTokenKey);
+			}
+		} catch (error) {
+			console.error('Failed to restore the GUI after a ladder:', error);
+		}
+	};
+}
+
+/**
+ * GUI methods the session calls, so tests can pass a fake GUI
+ */
+export type OrderGuiInstance = Pick<
+	DotrainOrderGuiType,
+	| 'getSelectTokens'
+	| 'getNetworkKey'
+	| 'areAllTokensSelected'
+	| 'getAllTokenInfos'
+	| 'getAllFieldDefinitions'
+	| 'getCurrentDeployment'
+	| 'hasAnyDeposit'
+	| 'hasAnyVaultId'
+	| 'getAllFieldValues'
+	| 'getDeposits'
+	| 'saveFieldValue'
+	| 'saveFieldValues'
+	| 'saveDeposit'
+	| 'removeDeposit'
+	| 'getTokenInfo'
+	| 'saveSelectToken'
+	| 'removeSelectToken'
+	| 'getVaultIds'
+	| 'setVaultId'
+	| 'getDeploymentTransactionArgs'
+	| 'getComposedRainlang'
+	| 'serializeState'
+>;
+
+/**
+ * Parts of the current deployment the session reads
+ */
+interface CurrentDeployment {
+	deployment: {
+		order: {
+			inputs?: OrderIOCfg[];
+			outputs?: OrderIOCfg[];
+			orderbook?: { address: Hex };
+			network?: { chainId: number };
+		};
+	};
+	deposits?: GuiDepositCfg[];
+}
+
+/**
+ * Error returned by a GUI call, with the call that failed
+ */
+export class GuiSessionError extends Error {
+	constructor(
+		readonly operation: string,
+		message: string
+	) {
+		super(message);
+		this.name = 'GuiSessionError';
+	}
+}
+
+/**
+ * Typed access to an initialized GUI
+ *
+ * Every method unwraps the GUI's `WasmEncodedResult` and throws a `GuiSessionError` when the GUI
+ * reports an error, so callers only handle typed values.
+ */
+export class OrderGuiSession {
+	constructor(readonly gui: OrderGuiInstance) {}
+
+	getSelectTokens(): GuiSelectTokensCfg[] {
+		return this.unwrap('getSelectTokens', this.gui.getSelectTokens());
+	}
+
+	getNetworkKey(): string {
+		return this.unwrap('getNetworkKey', this.gui.getNetworkKey());
+	}
+
+	areAllTokensSelected(): boolean {
+		return this.unwrap('areAllTokensSelected', this.gui.areAllTokensSelected());
+	}
+
+	async getAllTokenInfos(): Promise<TokenInfo[]> {
+		return this.unwrap('getAllTokenInfos', await this.gui.getAllTokenInfos());
+	}
+
+	/**
+	 * @param withDefaults - Fields that have a default value when true, fields without one otherwise
+	 */
+	getFieldDefinitions(withDefaults: boolean): GuiFieldDefinitionCfg[] {
+		return this.unwrap('getAllFieldDefinitions', this.gui.getAllFieldDefinitions(withDefaults));
+	}
+
+	getCurrentDeployment(): CurrentDeployment {
+		return this.unwrap('getCurrentDeployment', this.gui.getCurrentDeployment());
+	}
+
+	hasAnyDeposit(): boolean {
+		return this.unwrap('hasAnyDeposit', this.gui.hasAnyDeposit());
+	}
+
+	hasAnyVaultId(): boolean {
+		return this.unwrap('hasAnyVaultId', this.gui.hasAnyVaultId());
+	}
+
+	/**
+	 * Saved field values, keyed by binding
+	 */
+	getFieldValues(): Record<string, string> {
+		const values: Array<{ field: string; value: string }> = this.unwrap(
+			'getAllFieldValues',
+			this.gui.getAllFieldValues()
+		);
+		return Object.fromEntries(values.map(({ field, value }) => [field, value]));
+	}
+
+	/**
+	 * Saved value of one field, or null when none is saved
+	 */
+	getFieldValue(binding: string): string | null {
+		return this.getFieldValues()[binding] ?? null;
+	}
+
+	/**
+	 * Saved deposit amounts, keyed by token key
+	 */
+	getDeposits(): Record<string, string> {
+		const deposits: Array<{ token: string; amount: string }> = this.unwrap(
+			'getDeposits',
+			this.gui.getDeposits()
+		);
+		return Object.fromEntries(deposits.map(({ token, amount }) => [token, amount]));
+	}
+
+	saveFieldValue(binding: string, value: string): void {
+		this.unwrap('saveFieldValue', this.gui.saveFieldValue(binding, value));
+	}
+
+	saveFieldValues(values: Array<{ binding: string; value: string }>): void {
+		this.unwrap('saveFieldValues', this.gui.saveFieldValues(values));
+	}
+
+	saveDeposit(tokenKey: string, amount: string): void {
+		this.unwrap('saveDeposit', this.gui.saveDeposit(tokenKey, amount));
+	}
+
+	removeDeposit(tokenKey: string): void {
+		this.unwrap('removeDeposit', this.gui.removeDeposit(tokenKey));
+	}
+
+	async getTokenInfo(tokenKey: string): Promise<TokenInfo> {
+		return this.unwrap('getTokenInfo', await this.gui.getTokenInfo(tokenKey));
+	}
+
+	async saveSelectToken(tokenKey: string, address: string): Promise<void> {
+		this.unwrap('saveSelectToken', await this.gui.saveSelectToken(tokenKey, address));
+	}
+
+	async removeSelectToken(tokenKey: string): Promise<void> {
+		this.unwrap('removeSelectToken', await this.gui.removeSelectToken(tokenKey));
+	}
+
+	/**
+	 * Saved vault IDs, keyed by `input` and `output` with one entry per vault
+	 */
+	getVaultIds(): Map<string, Array<string | undefined>> {
+		return this.unwrap('getVaultIds', this.gui.getVaultIds());
+	}
+
+	setVaultId(isInput: boolean, index: number, vaultId: string): void {
+		this.unwrap('setVaultId', this.gui.setVaultId(isInput, index, vaultId));
+	}
+
+	async getDeploymentTransactionArgs(address: string): Promise<DeploymentTransactionArgs> {
+		return this.unwrap(
+			'getDeploymentTransactionArgs',
+			await this.gui.getDeploymentTransactionArgs(address)
+		);
+	}
+
+	async getComposedRainlang(): Promise<string> {
+		return this.unwrap('getComposedRainlang', await this.gui.getComposedRainlang());
+	}
+
+	serializeState(): string {
+		return this.unwrap('serializeState', this.gui.serializeState());
+	}
+
+	/**
+	 * Read the GUI configuration, including the deployment once all tokens are selected
+	 */
+	async getSnapshot(): Promise<GuiSnapshot> {
+		const allTokensSelected = this.areAllTokensSelected();
+
+		return {
+			selectTokens: this.getSelectTokens(),
+			networkKey: this.getNetworkKey(),
+			allTokensSelected,
+			deployment: allTokensSelected ? await this.getDeploymentSnapshot() : null
+		};
+	}
+
+	private async getDeploymentSnapshot(): Promise<GuiDeploymentSnapshot> {
+		const { deployment, deposits } = this.getCurrentDeployment();
+
+		return {
+			allTokenInfos: await this.getAllTokenInfos(),
+			fieldDefinitions: this.getFieldDefinitions(false),
+			fieldDefinitionsWithDefaults: this.getFieldDefinitions(true),
+			deposits: deposits || [],
+			tokenInputs: deployment.order.inputs || [],
+			tokenOutputs: deployment.order.outputs || [],
+			orderbookAddress: deployment.order.orderbook?.address,
+			chainId: deployment.order.network?.chainId,
+			hasDepositsOrVaultIds: this.hasSavedVaults()
+		};
+	}
+
+	/**
+	 * Whether deposits or vault IDs are saved, treating a failed check as none
+	 */
+	private hasSavedVaults(): boolean {
+		try {
+			return this.hasAnyDeposit() || this.hasAnyVaultId();
+		} catch {
+			return false;
+		}
+	}
+
+	private unwrap<T>(operation: string, result: WasmEncodedResult<T>): T {
 		if (result.error) {
-			throw new Error(result.error.msg);
+			throw new GuiSessionError(operation, result.error.msg);
 		}
-		return result.value;
-	} catch (error) {
-		console.error('Failed to prepare deployment transaction:', error);
-		throw error;
+		return result.value as T;
 	}
 }
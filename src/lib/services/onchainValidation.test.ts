@@ -0,0 +1,206 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Address } from 'viem';
+import {
+	checkAllowance,
+	checkBalance,
+	checkTokenContract,
+	runOnchainChecks,
+	type OnchainClient
+} from './onchainValidation';
+
+const TOKEN = '0x1111111111111111111111111111111111111111' as Address;
+const OTHER_TOKEN = '0x2222222222222222222222222222222222222222' as Address;
+const OWNER = '0x3333333333333333333333333333333333333333' as Address;
+const ORDERBOOK = '0x4444444444444444444444444444444444444444' as Address;
+
+interface ChainState {
+	code?: string;
+	decimals?: number | Error;
+	balanceOf?: bigint | Error;
+	allowance?: bigint;
+}
+
+/**
+ * Mock viem client answering reads from per-token state
+ */
+function createMockClient(tokens: Record<string, ChainState>) {
+	const getCode = vi.fn(async ({ address }: { address: Address }) => tokens[address]?.code);
+	const readContract = vi.fn(async ({ address, functionName }: Record<string, unknown>) => {
+		const state = tokens[address as string] ?? {};
+		const value = state[functionName as keyof ChainState];
+		if (value instanceof Error) throw value;
+		return value;
+	});
+
+	return { getCode, readContract } as unknown as OnchainClient & {
+		getCode: typeof getCode;
+		readContract: typeof readContract;
+	};
+}
+
+const ERC20 = { code: '0x6080', decimals: 18, balanceOf: 500n * 10n ** 18n, allowance: 0n };
+
+describe('On-chain Validation', () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+	});
+
+	describe('checkTokenContract', () => {
+		it('should accept an ERC20 with matching decimals', async () => {
+			const client = createMockClient({ [TOKEN]: ERC20 });
+
+			expect(await checkTokenContract(client, TOKEN, 18)).toBeNull();
+		});
+
+		it('should reject an address without code', async () => {
+			const client = createMockClient({ [TOKEN]: { code: '0x' } });
+
+			expect(await checkTokenContract(client, TOKEN, 18)).toBe(
+				'No contract is deployed at this token address'
+			);
+			expect(client.readContract).not.toHaveBeenCalled();
+		});
+
+		it('should reject a contract that does not answer decimals', async () => {
+			const client = createMockClient({
+				[TOKEN]: { code: '0x6080', decimals: new Error('execution reverted') }
+			});
+
+			expect(await checkTokenContract(client, TOKEN, 18)).toBe(
+				'This address is not an ERC20 token'
+			);
+		});
+
+		it('should reject mismatched decimals', async () => {
+			const client = createMockClient({ [TOKEN]: { ...ERC20, decimals: 6 } });
+
+			expect(await checkTokenContract(client, TOKEN, 18)).toBe(
+				'Token contract reports 6 decimals, but 18 were expected'
+			);
+		});
+	});
+
+	describe('checkBalance', () => {
+		it('should pass when the balance covers the deposit', async () => {
+			const client = createMockClient({ [TOKEN]: ERC20 });
+
+			expect(await checkBalance(client, TOKEN, OWNER, 500n * 10n ** 18n, 18, 'WFLR')).toBeNull();
+			expect(client.readContract).toHaveBeenCalledWith(
+				expect.objectContaining({ address: TOKEN, functionName: 'balanceOf', args: [OWNER] })
+			);
+		});
+
+		it('should report a balance below the deposit', async () => {
+			const client = createMockClient({ [TOKEN]: { ...ERC20, balanceOf: 25n * 10n ** 17n } });
+
+			expect(await checkBalance(client, TOKEN, OWNER, 10n ** 19n, 18, 'WFLR')).toBe(
+				'Your wallet holds 2.5 WFLR, less than the deposit of 10'
+			);
+		});
+	});
+
+	describe('checkAllowance', () => {
+		it('should pass when the allowance covers the deposit', async () => {
+			const client = createMockClient({ [TOKEN]: { ...ERC20, allowance: 10n ** 19n } });
+
+			expect(await checkAllowance(client, TOKEN, OWNER, ORDERBOOK, 10n ** 19n, 18)).toBeNull();
+			expect(client.readContract).toHaveBeenCalledWith(
+				expect.objectContaining({ functionName: 'allowance', args: [OWNER, ORDERBOOK] })
+			);
+		});
+
+		it('should warn when approval is still needed', async () => {
+			const client = createMockClient({ [TOKEN]: ERC20 });
+
+			expect(await checkAllowance(client, TOKEN, OWNER, ORDERBOOK, 10n ** 19n, 18, 'WFLR')).toBe(
+				'The orderbook may spend 0 WFLR, less than the deposit. You will be asked to approve it before deploying.'
+			);
+		});
+	});
+
+	describe('runOnchainChecks', () => {
+		it('should return no messages when everything checks out', async () => {
+			const client = createMockClient({
+				[TOKEN]: { ...ERC20, allowance: 10n ** 20n },
+				[OTHER_TOKEN]: ERC20
+			});
+
+			const result = await runOnchainChecks(client, {
+				owner: OWNER,
+				spender: ORDERBOOK,
+				tokens: [
+					{ key: 'wflr', address: TOKEN, decimals: 18, deposit: '100' },
+					{ key: 'usdc', address: OTHER_TOKEN, decimals: 18 }
+				]
+			});
+
+			expect(result).toEqual({ errors: {}, warnings: {} });
+		});
+
+		it('should key balance errors and allowance warnings by deposit field', async () => {
+			const client = createMockClient({ [TOKEN]: { ...ERC20, balanceOf: 10n ** 18n } });
+
+			const result = await runOnchainChecks(client, {
+				owner: OWNER,
+				spender: ORDERBOOK,
+				tokens: [{ key: 'wflr', address: TOKEN, decimals: 18, symbol: 'WFLR', deposit: '100' }]
+			});
+
+			expect(result.errors).toEqual({
+				'deposits.wflr': ['Your wallet holds 1 WFLR, less than the deposit of 100']
+			});
+			expect(result.warnings['deposits.wflr']).toHaveLength(1);
+		});
+
+		it('should key token errors by token field and skip the deposit checks', async () => {
+			const client = createMockClient({ [TOKEN]: { code: undefined } });
+
+			const result = await runOnchainChecks(client, {
+				owner: OWNER,
+				tokens: [{ key: 'wflr', address: TOKEN, decimals: 18, deposit: '100' }]
+			});
+
+			expect(result.errors).toEqual({
+				'tokens.wflr': ['No contract is deployed at this token address']
+			});
+			expect(client.readContract).not.toHaveBeenCalled();
+		});
+
+		it('should skip balance and allowance without a connected wallet', async () => {
+			const client = createMockClient({ [TOKEN]: ERC20 });
+
+			const result = await runOnchainChecks(client, {
+				spender: ORDERBOOK,
+				tokens: [{ key: 'wflr', address: TOKEN, decimals: 18, deposit: '100' }]
+			});
+
+			expect(result).toEqual({ errors: {}, warnings: {} });
+			expect(client.readContract).toHaveBeenCalledTimes(1);
+		});
+
+		it('should turn failed reads into warnings rather than errors', async () => {
+			const client = createMockClient({
+				[TOKEN]: { ...ERC20, balanceOf: new Error('RPC unavailable') }
+			});
+			vi.mocked(client.getCode).mockImplementationOnce(async () => {
+				throw new Error('RPC unavailable');
+			});
+
+			const result = await runOnchainChecks(client, {
+				owner: OWNER,
+				tokens: [
+					{ key: 'wflr', address: TOKEN, decimals: 18, deposit: '100' },
+					{ key: 'usdc', address: TOKEN, decimals: 18, deposit: '100' }
+				]
+			});
+
+			expect(result.errors).toEqual({});
+			expect(Object.values(result.warnings).flat()).toEqual(
+				expect.arrayContaining([
+					'Could not check the token contract',
+					'Could not check your balance and allowance'
+				])
+			);
+		});
+	});
+});
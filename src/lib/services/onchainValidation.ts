@@ -0,0 +1,183 @@
+import { erc20Abi, formatUnits, type Address, type PublicClient } from 'viem';
+import { toFixedPoint } from '$lib/utils/decimal';
+
+/**
+ * Read-only client the checks need, satisfied by a viem public client
+ */
+export type OnchainClient = Pick<PublicClient, 'getCode' | 'readContract'>;
+
+/**
+ * A token the strategy trades and the amount deposited of it
+ */
+export interface OnchainTokenCheck {
+	/** Token key in the dotrain, used to build field paths */
+	key: string;
+	address: Address;
+	/** Decimals the GUI reported for the token, compared with the contract */
+	decimals?: number;
+	symbol?: string;
+	/** Deposit amount as entered, empty when nothing is deposited */
+	deposit?: string;
+}
+
+/**
+ * Everything the on-chain checks look at
+ */
+export interface OnchainValidationRequest {
+	tokens: OnchainTokenCheck[];
+	/** Connected wallet, balance and allowance checks are skipped without it */
+	owner?: Address;
+	/** Orderbook that pulls the deposit, allowance checks are skipped without it */
+	spender?: Address;
+}
+
+/**
+ * Messages from the on-chain checks keyed by field path, e.g. `deposits.wflr` or `tokens.wflr`
+ */
+export interface OnchainValidationResult {
+	errors: Record<string, string[]>;
+	warnings: Record<string, string[]>;
+}
+
+/**
+ * Check that an address holds an ERC20 contract with the expected decimals
+ * @returns Error message, or null when the token checks out
+ */
+export async function checkTokenContract(
+	client: OnchainClient,
+	address: Address,
+	expectedDecimals?: number
+): Promise<string | null> {
+	const code = await client.getCode({ address });
+	if (!code || code === '0x') {
+		return 'No contract is deployed at this token address';
+	}
+
+	let decimals: number;
+	try {
+		decimals = Number(
+			await client.readContract({ address, abi: erc20Abi, functionName: 'decimals' })
+		);
+	} catch {
+		return 'This address is not an ERC20 token';
+	}
+
+	if (expectedDecimals !== undefined && decimals !== expectedDecimals) {
+		return `Token contract reports ${decimals} decimals, but ${expectedDecimals} were expected`;
+	}
+
+	return null;
+}
+
+/**
+ * Check that the wallet holds at least the deposit
+ * @returns Error message, or null when the balance covers the deposit
+ */
+export async function checkBalance(
+	client: OnchainClient,
+	token: Address,
+	owner: Address,
+	amount: bigint,
+	decimals: number,
+	symbol = 'tokens'
+): Promise<string | null> {
+	const balance = await client.readContract({
+		address: token,
+		abi: erc20Abi,
+		functionName: 'balanceOf',
+		args: [owner]
+	});
+
+	if (balance >= amount) return null;
+
+	return `Your wallet holds ${formatUnits(balance, decimals)} ${symbol}, less than the deposit of ${formatUnits(amount, decimals)}`;
+}
+
+/**
+ * Check whether the orderbook may already pull the deposit
+ * @returns Warning message, or null when the allowance covers the deposit
+ */
+export async function checkAllowance(
+	client: OnchainClient,
+	token: Address,
+	owner: Address,
+	spender: Address,
+	amount: bigint,
+	decimals: number,
+	symbol = 'tokens'
+): Promise<string | null> {
+	const allowance = await client.readContract({
+		address: token,
+		abi: erc20Abi,
+		functionName: 'allowance',
+		args: [owner, spender]
+	});
+
+	if (allowance >= amount) return null;
+
+	return `The orderbook may spend ${formatUnits(allowance, decimals)} ${symbol}, less than the deposit. You will be asked to approve it before deploying.`;
+}
+
+/**
+ * Run every on-chain check for the strategy's tokens
+ *
+ * Balance and allowance are only checked for tokens whose contract checks out. Failing reads
+ * surface as warnings, so an unreachable RPC never blocks deployment.
+ */
+export async function runOnchainChecks(
+	client: OnchainClient,
+	request: OnchainValidationRequest
+): Promise<OnchainValidationResult> {
+	const result: OnchainValidationResult = { errors: {}, warnings: {} };
+	const add = (messages: Record<string, string[]>, field: string, message: string | null) => {
+		if (message) messages[field] = [...(messages[field] || []), message];
+	};
+
+	await Promise.all(
+		request.tokens.map(async (token) => {
+			const tokenField = `tokens.${token.key}`;
+			const depositField = `deposits.${token.key}`;
+
+			try {
+				const contractError = await checkTokenContract(client, token.address, token.decimals);
+				add(result.errors, tokenField, contractError);
+				if (contractError) return;
+			} catch {
+				add(result.warnings, tokenField, 'Could not check the token contract');
+				return;
+			}
+
+			const decimals = token.decimals ?? 18;
+			const amount = toFixedPoint(token.deposit ?? '', decimals);
+			if (!request.owner || !amount) return;
+
+			try {
+				add(
+					result.errors,
+					depositField,
+					await checkBalance(client, token.address, request.owner, amount, decimals, token.symbol)
+				);
+
+				if (request.spender) {
+					add(
+						result.warnings,
+						depositField,
+						await checkAllowance(
+							client,
+							token.address,
+							request.owner,
+							request.spender,
+							amount,
+							decimals,
+							token.symbol
+						)
+					);
+				}
+			} catch {
+				add(result.warnings, depositField, 'Could not check your balance and allowance');
+			}
+		})
+	);
+
+	return result;
+}
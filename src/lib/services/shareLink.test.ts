@@ -0,0 +1,133 @@
+import { describe, it, expect } from 'vitest';
+import {
+	SHARE_LINK_PARAM,
+	SHARE_LINK_VERSION,
+	createShareUrl,
+	clearShareUrl,
+	decodeSharedConfig,
+	encodeSharedConfig,
+	readSharedConfig,
+	type SharedConfig
+} from './shareLink';
+
+const config: SharedConfig = {
+	strategy: 'dca',
+	deployment: 'flare',
+	state: 'H4sIAAAAAAAA/+3OMQ6AIAwF0L0n4QQaLbYbrnIDEpPGwYXE+4sXcHLpX17/1E7b+Q==',
+	localFields: { 'epoch-count': '12' }
+};
+
+function encodePayload(payload: unknown): string {
+	return btoa(JSON.stringify(payload)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+describe('Share Links', () => {
+	describe('encodeSharedConfig / decodeSharedConfig', () => {
+		it('should round-trip a configuration', () => {
+			expect(decodeSharedConfig(encodeSharedConfig(config))).toEqual({ config, error: null });
+		});
+
+		it('should produce a URL-safe payload', () => {
+			expect(encodeSharedConfig(config)).toMatch(/^[A-Za-z0-9_-]+$/);
+		});
+
+		it('should keep non-ASCII values intact', () => {
+			const withSymbols = { ...config, localFields: { note: 'Wöchentlich – €' } };
+
+			expect(decodeSharedConfig(encodeSharedConfig(withSymbols)).config).toEqual(withSymbols);
+		});
+
+		it('should default missing local fields to empty', () => {
+			const encoded = encodePayload({
+				v: SHARE_LINK_VERSION,
+				strategy: 'grid',
+				deployment: 'flare',
+				state: 'abc'
+			});
+
+			expect(decodeSharedConfig(encoded).config?.localFields).toEqual({});
+		});
+	});
+
+	describe('malformed links', () => {
+		it.each([
+			['not base64', '%%%'],
+			['not JSON', encodePayload('plain text').slice(0, 5)],
+			['not an object', encodePayload(42)],
+			['missing a version', encodePayload({ strategy: 'grid', deployment: 'flare', state: 'a' })],
+			['missing the state', encodePayload({ v: 1, strategy: 'grid', deployment: 'flare' })],
+			[
+				'non-string local fields',
+				encodePayload({ v: 1, strategy: 'grid', deployment: 'f', state: 'a', localFields: [1] })
+			]
+		])('should reject a payload %s', (_, encoded) => {
+			const result = decodeSharedConfig(encoded);
+
+			expect(result.config).toBeNull();
+			expect(result.error).toBe(
+				'This configuration link is incomplete or damaged. Ask for the link to be sent again.'
+			);
+		});
+	});
+
+	describe('versions', () => {
+		it('should ask to reload for links from a newer version', () => {
+			const result = decodeSharedConfig(
+				encodePayload({ ...config, v: SHARE_LINK_VERSION + 1, extra: true })
+			);
+
+			expect(result.config).toBeNull();
+			expect(result.error).toContain('newer version');
+		});
+
+		it('should reject links from an older version', () => {
+			const result = decodeSharedConfig(encodePayload({ ...config, v: SHARE_LINK_VERSION - 1 }));
+
+			expect(result.config).toBeNull();
+			expect(result.error).toContain('older version');
+		});
+	});
+
+	describe('readSharedConfig', () => {
+		it('should return nothing when the link has no configuration', () => {
+			expect(readSharedConfig(new URLSearchParams('foo=bar'))).toEqual({
+				config: null,
+				error: null
+			});
+		});
+
+		it('should read the configuration parameter', () => {
+			const params = new URLSearchParams({ [SHARE_LINK_PARAM]: encodeSharedConfig(config) });
+
+			expect(readSharedConfig(params).config).toEqual(config);
+		});
+	});
+
+	describe('createShareUrl', () => {
+		it('should keep the page and other parameters', () => {
+			const url = createShareUrl(new URL('https://grid.example/deploy?debug=1#top'), config);
+
+			expect(url.pathname).toBe('/deploy');
+			expect(url.searchParams.get('debug')).toBe('1');
+			expect(url.hash).toBe('#top');
+			expect(readSharedConfig(url.searchParams).config).toEqual(config);
+		});
+
+		it('should replace an existing configuration', () => {
+			const first = createShareUrl(new URL('https://grid.example/'), config);
+			const second = createShareUrl(first, { ...config, deployment: 'base' });
+
+			expect(second.searchParams.getAll(SHARE_LINK_PARAM)).toHaveLength(1);
+			expect(readSharedConfig(second.searchParams).config?.deployment).toBe('base');
+		});
+	});
+
+	describe('clearShareUrl', () => {
+		it('should only remove the configuration', () => {
+			const url = clearShareUrl(createShareUrl(new URL('https://grid.example/?debug=1'), config));
+
+			expect(url.searchParams.has(SHARE_LINK_PARAM)).toBe(false);
+			expect(url.searchParams.get('debug')).toBe('1');
+		});
+	});
+});
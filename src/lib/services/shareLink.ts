@@ -0,0 +1,151 @@
+/**
+ * Query parameter holding a shared configuration
+ */
+export const SHARE_LINK_PARAM = 'config';
+
+/**
+ * Version written into new links. Bump it when the payload changes shape.
+ */
+export const SHARE_LINK_VERSION = 1;
+
+/**
+ * Everything a share link restores
+ */
+export interface SharedConfig {
+	/** Registry key of the strategy, e.g. `grid` or `dca` */
+	strategy: string;
+	/** Deployment (network) key from the dotrain */
+	deployment: string;
+	/** Serialized GUI state: selected tokens, field values, deposits and vault IDs */
+	state: string;
+	/** Values of fields only the app uses, which the GUI state doesn't hold */
+	localFields: Record<string, string>;
+}
+
+/**
+ * Outcome of reading a share link
+ */
+export interface SharedConfigResult {
+	/** Restored configuration, null when there is none or it couldn't be read */
+	config: SharedConfig | null;
+	/** Why the link couldn't be read */
+	error: string | null;
+}
+
+/**
+ * Encode a configuration into a URL-safe link payload
+ */
+export function encodeSharedConfig(config: SharedConfig): string {
+	return toBase64Url(JSON.stringify({ v: SHARE_LINK_VERSION, ...config }));
+}
+
+/**
+ * Decode a link payload, checking its version and shape
+ */
+export function decodeSharedConfig(encoded: string): SharedConfigResult {
+	let payload: unknown;
+	try {
+		payload = JSON.parse(fromBase64Url(encoded));
+	} catch {
+		return malformed();
+	}
+
+	if (!payload || typeof payload !== 'object') {
+		return malformed();
+	}
+
+	const { v, strategy, deployment, state, localFields = {} } = payload as Record<string, unknown>;
+
+	if (typeof v !== 'number') {
+		return malformed();
+	}
+
+	if (v > SHARE_LINK_VERSION) {
+		return {
+			config: null,
+			error: 'This link was made by a newer version of the app. Reload the page and open it again.'
+		};
+	}
+
+	if (v < SHARE_LINK_VERSION) {
+		return {
+			config: null,
+			error: 'This link was made by an older version of the app and can no longer be opened.'
+		};
+	}
+
+	if (
+		typeof strategy !== 'string' ||
+		typeof deployment !== 'string' ||
+		typeof state !== 'string' ||
+		!isStringRecord(localFields)
+	) {
+		return malformed();
+	}
+
+	return { config: { strategy, deployment, state, localFields }, error: null };
+}
+
+/**
+ * Read the shared configuration from a URL's query parameters
+ */
+export function readSharedConfig(searchParams: URLSearchParams): SharedConfigResult {
+	const encoded = searchParams.get(SHARE_LINK_PARAM);
+	if (!encoded) {
+		return { config: null, error: null };
+	}
+
+	return decodeSharedConfig(encoded);
+}
+
+/**
+ * Build a link to the current page that restores the configuration
+ */
+export function createShareUrl(url: URL, config: SharedConfig): URL {
+	const shareUrl = new URL(url);
+	shareUrl.searchParams.set(SHARE_LINK_PARAM, encodeSharedConfig(config));
+	return shareUrl;
+}
+
+/**
+ * The URL without a shared configuration, once it no longer matches the page
+ */
+export function clearShareUrl(url: URL): URL {
+	const clearedUrl = new URL(url);
+	clearedUrl.searchParams.delete(SHARE_LINK_PARAM);
+	return clearedUrl;
+}
+
+function malformed(): SharedConfigResult {
+	return {
+		config: null,
+		error: 'This configuration link is incomplete or damaged. Ask for the link to be sent again.'
+	};
+}
+
+function isStringRecord(value: unknown): value is Record<string, string> {
+	return (
+		!!value &&
+		typeof value === 'object' &&
+		!Array.isArray(value) &&
+		Object.values(value).every((entry) => typeof entry === 'string')
+	);
+}
+
+function toBase64Url(text: string): string {
+	let binary = '';
+	new TextEncoder().encode(text).forEach((byte) => {
+		binary += String.fromCharCode(byte);
+	});
+
+	return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(encoded: string): string {
+	const base64 = encoded.replace(/-/g, '+').replace(/_/g, '/');
+	const binary = atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, '='));
+
+	return new TextDecoder('utf-8', { fatal: true }).decode(
+		Uint8Array.from(binary, (char) => char.charCodeAt(0))
+	);
+}
@@ -0,0 +1,406 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+vi.mock('./gui', () => ({
+	loadStrategyDetails: vi.fn(),
+	loadDeploymentDetails: vi.fn()
+}));
+
+vi.mock('$lib/strategies/sources', () => ({
+	getPinnedSource: vi.fn()
+}));
+
+import {
+	fetchDotrain,
+	hashDotrain,
+	loadStrategySource,
+	checkDotrainSource,
+	EDITOR_STRATEGY_KEY,
+	createStrategyKey,
+	createStrategyFromDotrain,
+	registerStrategyFromSource,
+	rememberStrategySource,
+	restoreStrategySources,
+	RUNTIME_STRATEGIES_STORAGE_KEY
+} from './strategyLoader';
+import { loadStrategyDetails, loadDeploymentDetails } from './gui';
+import { strategyRegistry, DotrainStrategyConfig } from '$lib/strategies';
+import { getPinnedSource } from '$lib/strategies/sources';
+
+const mockLoadStrategyDetails = vi.mocked(loadStrategyDetails);
+const mockLoadDeploymentDetails = vi.mocked(loadDeploymentDetails);
+const mockGetPinnedSource = vi.mocked(getPinnedSource);
+
+describe('Strategy Loader Service', () => {
+	const mockDotrain = 'gui:\n  name: Auction Sell';
+
+	beforeEach(() => {
+		vi.clearAllMocks();
+		mockLoadStrategyDetails.mockResolvedValue({
+			name: 'Auction Sell',
+			description: 'Sells in timed auctions',
+			short_description: 'Timed auctions'
+		});
+		mockLoadDeploymentDetails.mockResolvedValue([
+			{
+				key: 'flare',
+				value: { name: 'Flare', description: 'Flare deployment', short_description: undefined }
+			},
+			{
+				key: 'base',
+				value: { name: 'Base', description: 'Base deployment', short_description: undefined }
+			}
+		]);
+	});
+
+	afterEach(() => {
+		vi.unstubAllGlobals();
+	});
+
+	describe('fetchDotrain', () => {
+		it('should return the response text', async () => {
+			vi.stubGlobal(
+				'fetch',
+				vi.fn().mockResolvedValue({ ok: true, text: () => Promise.resolve(mockDotrain) })
+			);
+
+			await expect(fetchDotrain('https://example.com/a.rain')).resolves.toBe(mockDotrain);
+		});
+
+		it('should throw on failed responses', async () => {
+			vi.stubGlobal('fetch', vi.fn().mockResolvedValue({ ok: false, status: 404 }));
+
+			await expect(fetchDotrain('https://example.com/a.rain')).rejects.toThrow(
+				'Failed to load strategy configuration (404)'
+			);
+		});
+	});
+
+	describe('hashDotrain', () => {
+		it('should return the hex SHA-256 of the source', async () => {
+			await expect(hashDotrain('abc')).resolves.toBe(
+				'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad'
+			);
+		});
+	});
+
+	describe('loadStrategySource', () => {
+		const url = 'https://example.com/grid.rain';
+		const bundled = 'gui:\n  name: Grid';
+		const changed = 'gui:\n  name: Grid (changed)';
+		let bundledHash: string;
+
+		const stubFetch = (content: string) =>
+			vi.stubGlobal(
+				'fetch',
+				vi.fn().mockResolvedValue({ ok: true, text: () => Promise.resolve(content) })
+			);
+
+		beforeEach(async () => {
+			bundledHash = await hashDotrain(bundled);
+			mockGetPinnedSource.mockReturnValue({ sha256: bundledHash, bundled });
+		});
+
+		it('should use the bundled copy without fetching', async () => {
+			const fetchMock = vi.fn();
+			vi.stubGlobal('fetch', fetchMock);
+
+			await expect(loadStrategySource(url)).resolves.toEqual({
+				dotrain: bundled,
+				origin: 'bundled',
+				warning: null
+			});
+			expect(fetchMock).not.toHaveBeenCalled();
+		});
+
+		it('should use a refreshed remote copy that matches the pin', async () => {
+			stubFetch(bundled);
+
+			const source = await loadStrategySource(url, true);
+
+			expect(source).toMatchObject({ dotrain: bundled, origin: 'remote' });
+			expect(fetch).toHaveBeenCalledWith(url);
+		});
+
+		it('should keep the bundled copy when the remote file changed', async () => {
+			stubFetch(changed);
+
+			const source = await loadStrategySource(url, true);
+
+			expect(source.dotrain).toBe(bundled);
+			expect(source.origin).toBe('bundled');
+			expect(source.warning).toBe(
+				'The remote strategy source has changed, so the bundled copy is used.'
+			);
+		});
+
+		it('should fall back to the bundled copy when offline', async () => {
+			vi.stubGlobal('fetch', vi.fn().mockRejectedValue(new Error('Network down')));
+			const consoleSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+			const source = await loadStrategySource(url, true);
+
+			expect(source).toMatchObject({ dotrain: bundled, origin: 'bundled', warning: null });
+			consoleSpy.mockRestore();
+		});
+
+		it('should fetch a pinned source that is not bundled', async () => {
+			mockGetPinnedSource.mockReturnValue({ sha256: bundledHash, bundled: null });
+			stubFetch(bundled);
+
+			await expect(loadStrategySource(url)).resolves.toMatchObject({
+				dotrain: bundled,
+				origin: 'remote'
+			});
+		});
+
+		it('should refuse a remote file that does not match the pin without a bundled copy', async () => {
+			mockGetPinnedSource.mockReturnValue({ sha256: bundledHash, bundled: null });
+			stubFetch(changed);
+
+			await expect(loadStrategySource(url)).rejects.toThrow(
+				'does not match its pinned hash and was not loaded'
+			);
+		});
+
+		it('should ignore a bundled copy that does not match the pin', async () => {
+			mockGetPinnedSource.mockReturnValue({ sha256: bundledHash, bundled: changed });
+			stubFetch(bundled);
+			const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+			const source = await loadStrategySource(url);
+
+			expect(source).toMatchObject({ dotrain: bundled, origin: 'remote' });
+			consoleSpy.mockRestore();
+		});
+
+		it('should refuse unpinned sources without fetching', async () => {
+			const fetchMock = vi.fn();
+			vi.stubGlobal('fetch', fetchMock);
+
+			mockGetPinnedSource.mockReturnValue(null);
+			await expect(loadStrategySource(url)).rejects.toThrow('has no pinned hash');
+
+			mockGetPinnedSource.mockReturnValue({ sha256: null, bundled: null });
+			await expect(loadStrategySource(url)).rejects.toThrow('has no pinned hash');
+
+			expect(fetchMock).not.toHaveBeenCalled();
+		});
+	});
+
+	describe('createStrategyKey', () => {
+		it('should slugify the strategy name', () => {
+			expect(createStrategyKey('My New Strategy!')).toBe('custom:my-new-strategy');
+			expect(createStrategyKey('***')).toBe('custom:strategy');
+		});
+
+		it('should avoid keys already in the registry', () => {
+			strategyRegistry.register(
+				'custom:dup',
+				new DotrainStrategyConfig({
+					name: 'Dup',
+					description: '',
+					dotrain: mockDotrain,
+					sourceUrl: 'dup.rain',
+					deployments: ['flare']
+				})
+			);
+
+			expect(createStrategyKey('dup')).toBe('custom:dup-2');
+		});
+	});
+
+	describe('createStrategyFromDotrain', () => {
+		it('should build a strategy config from the gui details', async () => {
+			const { strategy, error } = await createStrategyFromDotrain(mockDotrain, 'auction.rain');
+
+			expect(error).toBeNull();
+			expect(strategy?.name).toBe('Auction Sell');
+			expect(strategy?.description).toBe('Timed auctions');
+			expect(strategy?.dotrain).toBe(mockDotrain);
+			expect(strategy?.sourceUrl).toBe('auction.rain');
+			expect(strategy?.deployments).toEqual(['flare', 'base']);
+			expect(strategy?.getAllFieldMetadata()).toEqual([]);
+		});
+
+		it('should reject empty files', async () => {
+			const { strategy, error } = await createStrategyFromDotrain('  ', 'empty.rain');
+
+			expect(strategy).toBeNull();
+			expect(error).toBe('Strategy file is empty');
+			expect(mockLoadStrategyDetails).not.toHaveBeenCalled();
+		});
+
+		it('should reject sources without deployments', async () => {
+			mockLoadDeploymentDetails.mockResolvedValue([]);
+
+			const { error } = await createStrategyFromDotrain(mockDotrain, 'auction.rain');
+
+			expect(error).toBe('Strategy does not declare any deployments');
+		});
+
+		it('should surface parse errors', async () => {
+			mockLoadStrategyDetails.mockRejectedValue(new Error('Missing gui section'));
+
+			const { error } = await createStrategyFromDotrain(mockDotrain, 'auction.rain');
+
+			expect(error).toBe('Missing gui section');
+		});
+	});
+
+	describe('registerStrategyFromSource', () => {
+		it('should register uploaded sources without fetching', async () => {
+			const fetchMock = vi.fn();
+			vi.stubGlobal('fetch', fetchMock);
+
+			const { key, error } = await registerStrategyFromSource('auction.rain', mockDotrain);
+
+			expect(error).toBeNull();
+			expect(key).toMatch(/^custom:auction-sell/);
+			expect(strategyRegistry.get(key!)?.name).toBe('Auction Sell');
+			expect(fetchMock).not.toHaveBeenCalled();
+		});
+
+		it('should fetch sources from a URL', async () => {
+			vi.stubGlobal(
+				'fetch',
+				vi.fn().mockResolvedValue({ ok: true, text: () => Promise.resolve(mockDotrain) })
+			);
+
+			const { key } = await registerStrategyFromSource('https://example.com/auction.rain');
+
+			expect(strategyRegistry.get(key!)?.dotrain).toBe(mockDotrain);
+		});
+
+		it('should return fetch errors', async () => {
+			vi.stubGlobal('fetch', vi.fn().mockRejectedValue(new Error('Network down')));
+
+			const { key, error } = await registerStrategyFromSource('https://example.com/a.rain');
+
+			expect(key).toBeNull();
+			expect(error).toBe('Network down');
+		});
+
+		it('should replace the strategy under a given key', async () => {
+			await registerStrategyFromSource('Dotrain editor', mockDotrain, EDITOR_STRATEGY_KEY);
+			mockLoadStrategyDetails.mockResolvedValue({
+				name: 'Auction Sell v2',
+				description: 'Sells in timed auctions',
+				short_description: 'Timed auctions'
+			});
+
+			const { key } = await registerStrategyFromSource(
+				'Dotrain editor',
+				`${mockDotrain} v2`,
+				EDITOR_STRATEGY_KEY
+			);
+
+			expect(key).toBe(EDITOR_STRATEGY_KEY);
+			expect(strategyRegistry.get(EDITOR_STRATEGY_KEY)?.name).toBe('Auction Sell v2');
+			expect(strategyRegistry.get(EDITOR_STRATEGY_KEY)?.dotrain).toBe(`${mockDotrain} v2`);
+		});
+	});
+
+	describe('runtime strategy storage', () => {
+		function createStorage() {
+			const items = new Map<string, string>();
+			return {
+				getItem: (key: string) => items.get(key) ?? null,
+				setItem: (key: string, value: string) => void items.set(key, value)
+			};
+		}
+
+		it('should restore saved sources into the registry', async () => {
+			const storage = createStorage();
+			rememberStrategySource(
+				{ key: 'custom:restored', source: 'auction.rain', dotrain: mockDotrain },
+				storage
+			);
+
+			const keys = await restoreStrategySources(storage);
+
+			expect(keys).toEqual(['custom:restored']);
+			expect(strategyRegistry.get('custom:restored')?.dotrain).toBe(mockDotrain);
+		});
+
+		it('should replace a source saved under the same key or with the same content', () => {
+			const storage = createStorage();
+			rememberStrategySource({ key: 'custom:a', source: 'a.rain', dotrain: 'one' }, storage);
+			rememberStrategySource({ key: 'custom:b', source: 'b.rain', dotrain: 'one' }, storage);
+			rememberStrategySource({ key: 'custom:b', source: 'b.rain', dotrain: 'two' }, storage);
+
+			expect(JSON.parse(storage.getItem(RUNTIME_STRATEGIES_STORAGE_KEY)!)).toEqual([
+				{ key: 'custom:b', source: 'b.rain', dotrain: 'two' }
+			]);
+		});
+
+		it('should ignore saved entries that are malformed or not custom', async () => {
+			const storage = createStorage();
+			storage.setItem(
+				RUNTIME_STRATEGIES_STORAGE_KEY,
+				JSON.stringify([
+					null,
+					{ key: 'grid', source: 'grid.rain', dotrain: mockDotrain },
+					{ key: 'custom:no-source', dotrain: mockDotrain },
+					{ key: 'custom:kept', source: 'kept.rain', dotrain: mockDotrain }
+				])
+			);
+
+			await expect(restoreStrategySources(storage)).resolves.toEqual(['custom:kept']);
+
+			storage.setItem(RUNTIME_STRATEGIES_STORAGE_KEY, JSON.stringify({ key: 'custom:a' }));
+			await expect(restoreStrategySources(storage)).resolves.toEqual([]);
+		});
+
+		it('should drop saved sources that no longer parse', async () => {
+			const storage = createStorage();
+			rememberStrategySource({ key: 'custom:broken', source: 'a.rain', dotrain: '' }, storage);
+			const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+			const keys = await restoreStrategySources(storage);
+
+			expect(keys).toEqual([]);
+			expect(JSON.parse(storage.getItem(RUNTIME_STRATEGIES_STORAGE_KEY)!)).toEqual([]);
+			consoleSpy.mockRestore();
+		});
+	});
+
+	describe('checkDotrainSource', () => {
+		it('should report the name and deployments of a valid document', async () => {
+			await expect(checkDotrainSource(mockDotrain)).resolves.toEqual({
+				name: 'Auction Sell',
+				deployments: ['flare', 'base'],
+				detailsError: null,
+				deploymentsError: null
+			});
+		});
+
+		it('should report errors from each parsing step separately', async () => {
+			mockLoadStrategyDetails.mockRejectedValue(new Error('Missing gui section'));
+			mockLoadDeploymentDetails.mockRejectedValue(new Error('Unknown network: flare'));
+
+			await expect(checkDotrainSource(mockDotrain)).resolves.toEqual({
+				name: null,
+				deployments: [],
+				detailsError: 'Missing gui section',
+				deploymentsError: 'Unknown network: flare'
+			});
+		});
+
+		it('should keep the details when only the deployments fail', async () => {
+			mockLoadDeploymentDetails.mockResolvedValue([]);
+
+			const result = await checkDotrainSource(mockDotrain);
+
+			expect(result.name).toBe('Auction Sell');
+			expect(result.detailsError).toBeNull();
+			expect(result.deploymentsError).toBe('Strategy does not declare any deployments');
+		});
+
+		it('should reject empty documents without parsing', async () => {
+			const result = await checkDotrainSource('  \n');
+
+			expect(result.detailsError).toBe('Strategy file is empty');
+			expect(mockLoadStrategyDetails).not.toHaveBeenCalled();
+		});
+	});
+});
@@ -0,0 +1,339 @@
+import { loadStrategyDetails, loadDeploymentDetails } from './gui';
+import { DotrainStrategyConfig, strategyRegistry, type StrategyType } from '$lib/strategies';
+import { getPinnedSource } from '$lib/strategies/sources';
+import {
+	getLocalStorage,
+	readStoredJson,
+	writeStoredJson,
+	type KeyValueStorage
+} from '$lib/utils/storage';
+
+/**
+ * A dotrain source ready to deploy, and where it came from
+ */
+export interface LoadedStrategySource {
+	dotrain: string;
+	/** Whether the bundled copy or the remote file was used */
+	origin: 'bundled' | 'remote';
+	/** Something the user should know about the source, e.g. that the remote file changed */
+	warning: string | null;
+}
+
+/**
+ * Registry key of the strategy built from the dotrain editor, replaced on every apply
+ */
+export const EDITOR_STRATEGY_KEY: StrategyType = 'custom:editor';
+
+/**
+ * Storage key of the strategies registered at runtime, restored on the next visit
+ */
+export const RUNTIME_STRATEGIES_STORAGE_KEY = 'runtime-strategies';
+
+/**
+ * A dotrain source registered at runtime, saved so it survives a reload
+ */
+export interface StoredStrategySource {
+	key: StrategyType;
+	/** URL or file name the source came from */
+	source: string;
+	dotrain: string;
+}
+
+/**
+ * What parsing a dotrain document found, with the error from each step
+ */
+export interface DotrainCheckResult {
+	/** Strategy name from the GUI section */
+	name: string | null;
+	/** Deployment keys declared by the document */
+	deployments: string[];
+	/** Error from reading the strategy details */
+	detailsError: string | null;
+	/** Error from reading the deployments */
+	deploymentsError: string | null;
+}
+
+/**
+ * Fetch a dotrain source from a URL
+ * @param url - Location of the `.rain` file
+ * @returns Promise resolving to the dotrain source
+ */
+export async function fetchDotrain(url: string): Promise<string> {
+	const response = await fetch(url);
+	if (!response.ok) {
+		throw new Error(`Failed to load strategy configuration (${response.status})`);
+	}
+	return await response.text();
+}
+
+/**
+ * Hex SHA-256 of a dotrain source
+ */
+export async function hashDotrain(dotrain: string): Promise<string> {
+	const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(dotrain));
+	return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Load a known strategy's dotrain source, checked against its pinned hash
+ *
+ * The bundled copy is used unless `refresh` asks for the remote file. A remote file only
+ * replaces the bundled copy when its hash matches the pin, so a changed or compromised remote
+ * never changes what is deployed. Sources without a pin are refused rather than fetched unverified.
+ * @param url - Source URL, as used for `StrategyConfig.sourceUrl`
+ * @param refresh - Fetch the remote file even when a bundled copy exists
+ * @returns Promise resolving to the source, rejecting when no trustworthy copy is available
+ */
+export async function loadStrategySource(
+	url: string,
+	refresh = false
+): Promise<LoadedStrategySource> {
+	const pin = getPinnedSource(url);
+
+	if (!pin?.sha256) {
+		throw new Error(
+			'This strategy source has no pinned hash, so it was not loaded. Run `npm run strategies:vendor` to bundle and pin it.'
+		);
+	}
+
+	const bundled =
+		pin.bundled !== null && (await hashDotrain(pin.bundled)) === pin.sha256 ? pin.bundled : null;
+	if (pin.bundled !== null && bundled === null) {
+		console.error('Bundled strategy source does not match its pinned hash:', url);
+	}
+
+	const fromBundle = (warning: string | null = null): LoadedStrategySource => ({
+		dotrain: bundled as string,
+		origin: 'bundled',
+		warning
+	});
+
+	if (bundled !== null && !refresh) {
+		return fromBundle();
+	}
+
+	let remote: string;
+	try {
+		remote = await fetchDotrain(url);
+	} catch (error) {
+		if (bundled !== null) {
+			console.warn('Strategy source refresh failed, using bundled copy:', error);
+			return fromBundle();
+		}
+		throw error;
+	}
+
+	if ((await hashDotrain(remote)) === pin.sha256) {
+		return { dotrain: remote, origin: 'remote', warning: null };
+	}
+
+	if (bundled !== null) {
+		return fromBundle('The remote strategy source has changed, so the bundled copy is used.');
+	}
+
+	throw new Error(
+		'The strategy source does not match its pinned hash and was not loaded. It may have been changed or tampered with.'
+	);
+}
+
+/**
+ * Build a registry key for a runtime strategy that does not clash with existing entries
+ * @param name - Strategy name from the dotrain GUI section
+ * @returns Key in the `custom:<slug>` form
+ */
+export function createStrategyKey(name: string): StrategyType {
+	const slug =
+		name
+			.toLowerCase()
+			.replace(/[^a-z0-9]+/g, '-')
+			.replace(/^-|-$/g, '') || 'strategy';
+
+	let key: StrategyType = `custom:${slug}`;
+	for (let suffix = 2; strategyRegistry.has(key); suffix++) {
+		key = `custom:${slug}-${suffix}`;
+	}
+	return key;
+}
+
+/**
+ * Build a strategy configuration from a dotrain source
+ * @param dotrain - Dotrain source
+ * @param sourceUrl - URL or file name the source came from
+ * @returns Strategy configuration or an error message
+ */
+export async function createStrategyFromDotrain(
+	dotrain: string,
+	sourceUrl: string
+): Promise<{ strategy: DotrainStrategyConfig | null; error: string | null }> {
+	try {
+		if (!dotrain.trim()) {
+			throw new Error('Strategy file is empty');
+		}
+
+		const details = await loadStrategyDetails(dotrain);
+		const deployments = await loadDeploymentDetails(dotrain);
+
+		if (deployments.length === 0) {
+			throw new Error('Strategy does not declare any deployments');
+		}
+
+		return {
+			strategy: new DotrainStrategyConfig({
+				name: details.name,
+				description: details.short_description || details.description,
+				dotrain,
+				sourceUrl,
+				deployments: getDeploymentKeys(deployments)
+			}),
+			error: null
+		};
+	} catch (error) {
+		console.error('Failed to load strategy from dotrain:', error);
+		return {
+			strategy: null,
+			error: error instanceof Error ? error.message : 'Could not read strategy file'
+		};
+	}
+}
+
+/**
+ * Parse a dotrain document the way the GUI will, reporting each step's error separately
+ * @param dotrain - Dotrain source
+ * @returns Promise resolving to the strategy name, deployments and errors
+ */
+export async function checkDotrainSource(dotrain: string): Promise<DotrainCheckResult> {
+	const result: DotrainCheckResult = {
+		name: null,
+		deployments: [],
+		detailsError: null,
+		deploymentsError: null
+	};
+
+	if (!dotrain.trim()) {
+		return { ...result, detailsError: 'Strategy file is empty' };
+	}
+
+	const [details, deployments] = await Promise.allSettled([
+		loadStrategyDetails(dotrain),
+		loadDeploymentDetails(dotrain)
+	]);
+
+	if (details.status === 'fulfilled') {
+		result.name = details.value.name;
+	} else {
+		result.detailsError = getErrorMessage(details.reason, 'Could not read strategy details');
+	}
+
+	if (deployments.status === 'rejected') {
+		result.deploymentsError = getErrorMessage(deployments.reason, 'Could not read deployments');
+	} else if (deployments.value.length === 0) {
+		result.deploymentsError = 'Strategy does not declare any deployments';
+	} else {
+		result.deployments = getDeploymentKeys(deployments.value);
+	}
+
+	return result;
+}
+
+/**
+ * Load a dotrain source and add it to the strategy registry
+ * @param source - URL to fetch, or the file name of an uploaded source
+ * @param dotrain - Uploaded dotrain source; fetched from `source` when omitted
+ * @param key - Registry key to use, replacing any strategy under it; derived from the name when omitted
+ * @returns Registry key of the new strategy or an error message
+ */
+export async function registerStrategyFromSource(
+	source: string,
+	dotrain?: string,
+	key?: StrategyType
+): Promise<{ key: StrategyType | null; error: string | null }> {
+	try {
+		const content = dotrain ?? (await fetchDotrain(source));
+		const { strategy, error } = await createStrategyFromDotrain(content, source);
+
+		if (error || !strategy) {
+			return { key: null, error: error || 'Could not read strategy file' };
+		}
+
+		const strategyKey = key ?? createStrategyKey(strategy.name);
+		strategyRegistry.register(strategyKey, strategy);
+		rememberStrategySource({ key: strategyKey, source, dotrain: content });
+
+		return { key: strategyKey, error: null };
+	} catch (error) {
+		console.error('Failed to register strategy:', error);
+		return {
+			key: null,
+			error: error instanceof Error ? error.message : 'Could not load strategy'
+		};
+	}
+}
+
+/**
+ * Save a runtime strategy's source, replacing an earlier one with the same key or content
+ * @param entry - Registry key and source of the strategy
+ * @param storage - Storage to save to, local storage by default
+ */
+export function rememberStrategySource(
+	entry: StoredStrategySource,
+	storage: KeyValueStorage | null = getLocalStorage()
+): void {
+	const others = readStoredSources(storage).filter(
+		(item) => item.key !== entry.key && item.dotrain !== entry.dotrain
+	);
+
+	writeStoredJson(storage, RUNTIME_STRATEGIES_STORAGE_KEY, [...others, entry]);
+}
+
+/**
+ * Register the runtime strategies saved on earlier visits, dropping entries that are malformed or no longer parse
+ * @param storage - Storage to read from, local storage by default
+ * @returns Registry keys of the restored strategies
+ */
+export async function restoreStrategySources(
+	storage: KeyValueStorage | null = getLocalStorage()
+): Promise<StrategyType[]> {
+	const restored: StoredStrategySource[] = [];
+
+	for (const entry of readStoredSources(storage)) {
+		const { strategy } = await createStrategyFromDotrain(entry.dotrain, entry.source);
+		if (strategy) {
+			strategyRegistry.register(entry.key, strategy);
+			restored.push(entry);
+		}
+	}
+
+	writeStoredJson(storage, RUNTIME_STRATEGIES_STORAGE_KEY, restored);
+
+	return restored.map((entry) => entry.key);
+}
+
+/**
+ * The well-formed saved sources, only ever under custom keys so a stored entry can't replace a built-in strategy
+ */
+function readStoredSources(storage: KeyValueStorage | null): StoredStrategySource[] {
+	const stored = readStoredJson<unknown>(storage, RUNTIME_STRATEGIES_STORAGE_KEY, []);
+	return Array.isArray(stored) ? stored.filter(isStoredStrategySource) : [];
+}
+
+function isStoredStrategySource(value: unknown): value is StoredStrategySource {
+	if (!value || typeof value !== 'object') return false;
+
+	const { key, source, dotrain } = value as Record<string, unknown>;
+	return (
+		typeof key === 'string' &&
+		key.startsWith('custom:') &&
+		typeof source === 'string' &&
+		typeof dotrain === 'string'
+	);
+}
+
+function getErrorMessage(error: unknown, fallback: string): string {
+	return error instanceof Error ? error.message : fallback;
+}
+
+function getDeploymentKeys(
+	deployments: Awaited<ReturnType<typeof loadDeploymentDetails>>
+): string[] {
+	return deployments.map((deployment) => deployment.key);
+}
@@ -1,5 +1,5 @@
 import { writable } from 'svelte/store';
-import type { DeploymentState } from '$lib/types';
+import type { AppError, DeploymentState } from '$lib/types';
 
 /**
  * Deployment state store
@@ -30,23 +30,41 @@ function createDeploymentStore() {
 		setStep: (step: DeploymentState['currentStep']) =>
 			update((state) => ({ ...state, currentStep: step })),
 
+		/**
+		 * Record a level deployed on its own, so a failed deployment can resume after it
+		 */
+		recordLevelDeployed: (key: string, levelCount: number, transactionHash: string) =>
+			update((state) => ({
+				...state,
+				levelProgress: {
+					key,
+					levelCount,
+					transactionHashes: [
+						...(state.levelProgress?.key === key ? state.levelProgress.transactionHashes : []),
+						transactionHash
+					]
+				}
+			})),
+
 		/**
 		 * Set deployment success
 		 */
-		setSuccess: (transactionHash: string, explorerUrl: string) =>
+		setSuccess: (transactionHashes: string[], explorerUrl: string) =>
 			update((state) => ({
 				...state,
 				isDeploying: false,
 				currentStep: 'success',
-				transactionHash,
+				transactionHash: transactionHashes[transactionHashes.length - 1],
+				transactionHashes,
 				explorerUrl,
-				error: undefined
+				error: undefined,
+				levelProgress: undefined
 			})),
 
 		/**
 		 * Set deployment error
 		 */
-		setError: (error: string) =>
+		setError: (error: AppError) =>
 			update((state) => ({
 				...state,
 				isDeploying: false,
@@ -62,6 +80,7 @@ function createDeploymentStore() {
 				...state,
 				currentStep: 'idle',
 				transactionHash: undefined,
+				transactionHashes: undefined,
 				explorerUrl: undefined,
 				error: undefined
 			})),
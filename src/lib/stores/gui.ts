@@ -1,20 +1,13 @@
-import { writable } from 'svelte/store';
-import type {
-	DotrainOrderGui,
-	GuiSelectTokensCfg,
-	GuiFieldDefinitionCfg,
-	GuiDepositCfg,
-	OrderIOCfg,
-	TokenInfo,
-	GuiState
-} from '$lib/types';
+import { writable, derived } from 'svelte/store';
+import type { AppError, OrderIOCfg, GuiSnapshot, GuiState, TokenSymbols } from '$lib/types';
+import type { OrderGuiSession } from '$lib/services/gui';
 
 /**
  * GUI instance and related data store
  */
 function createGuiStore() {
 	const { subscribe, set, update } = writable<GuiState>({
-		gui: null,
+		session: null,
 		selectTokens: [],
 		fieldDefinitions: [],
 		fieldDefinitionsWithDefaults: [],
@@ -31,51 +24,29 @@ function createGuiStore() {
 		subscribe,
 
 		/**
-		 * Set GUI instance
+		 * Set GUI session
 		 */
-		setGui: (gui: DotrainOrderGui | null) => update((state) => ({ ...state, gui })),
+		setSession: (session: OrderGuiSession | null) => update((state) => ({ ...state, session })),
 
 		/**
-		 * Set select tokens configuration
+		 * Set the GUI configuration read by `OrderGuiSession.getSnapshot`. The deployment parts
+		 * are kept until the snapshot includes them.
 		 */
-		setSelectTokens: (selectTokens: GuiSelectTokensCfg[]) =>
-			update((state) => ({ ...state, selectTokens })),
-
-		/**
-		 * Set field definitions
-		 */
-		setFieldDefinitions: (
-			fieldDefinitions: GuiFieldDefinitionCfg[],
-			withDefaults: GuiFieldDefinitionCfg[]
-		) =>
+		setSnapshot: ({ selectTokens, networkKey, deployment }: GuiSnapshot) =>
 			update((state) => ({
 				...state,
-				fieldDefinitions,
-				fieldDefinitionsWithDefaults: withDefaults
+				selectTokens,
+				networkKey,
+				...(deployment && {
+					allTokenInfos: deployment.allTokenInfos,
+					fieldDefinitions: deployment.fieldDefinitions,
+					fieldDefinitionsWithDefaults: deployment.fieldDefinitionsWithDefaults,
+					deposits: deployment.deposits,
+					tokenInputs: deployment.tokenInputs,
+					tokenOutputs: deployment.tokenOutputs
+				})
 			})),
 
-		/**
-		 * Set deposits configuration
-		 */
-		setDeposits: (deposits: GuiDepositCfg[]) => update((state) => ({ ...state, deposits })),
-
-		/**
-		 * Set token I/O configuration
-		 */
-		setTokenIO: (tokenInputs: OrderIOCfg[], tokenOutputs: OrderIOCfg[]) =>
-			update((state) => ({ ...state, tokenInputs, tokenOutputs })),
-
-		/**
-		 * Set all token infos
-		 */
-		setAllTokenInfos: (allTokenInfos: TokenInfo[]) =>
-			update((state) => ({ ...state, allTokenInfos })),
-
-		/**
-		 * Set network key
-		 */
-		setNetworkKey: (networkKey: string) => update((state) => ({ ...state, networkKey })),
-
 		/**
 		 * Set loading state
 		 */
@@ -84,14 +55,14 @@ function createGuiStore() {
 		/**
 		 * Set error
 		 */
-		setError: (error: string | null) => update((state) => ({ ...state, error })),
+		setError: (error: AppError | null) => update((state) => ({ ...state, error })),
 
 		/**
 		 * Reset GUI state
 		 */
 		reset: () =>
 			set({
-				gui: null,
+				session: null,
 				selectTokens: [],
 				fieldDefinitions: [],
 				fieldDefinitionsWithDefaults: [],
@@ -107,3 +78,18 @@ function createGuiStore() {
 }
 
 export const guiStore = createGuiStore();
+
+/**
+ * Symbols of the first input and output tokens, for labelling amounts and prices
+ */
+export const tokenSymbols = derived(guiStore, ($gui): TokenSymbols => {
+	const findSymbol = (io: OrderIOCfg | undefined) =>
+		$gui.allTokenInfos.find(
+			(info) => info.address.toLowerCase() === io?.token?.address?.toLowerCase()
+		)?.symbol ?? null;
+
+	return {
+		input: findSymbol($gui.tokenInputs[0]),
+		output: findSymbol($gui.tokenOutputs[0])
+	};
+});
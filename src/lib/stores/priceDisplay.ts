@@ -0,0 +1,27 @@
+import { writable } from 'svelte/store';
+
+/**
+ * Direction prices are shown in across the app
+ *
+ * Io ratios are stored and saved as input token per output token. When inverted, every price is
+ * shown and entered as output token per input token instead.
+ */
+function createPriceDisplayStore() {
+	const { subscribe, set, update } = writable({ inverted: false });
+
+	return {
+		subscribe,
+
+		/**
+		 * Show prices as output token per input token, or back as input per output
+		 */
+		setInverted: (inverted: boolean) => set({ inverted }),
+
+		/**
+		 * Flip the direction prices are shown in
+		 */
+		toggle: () => update((state) => ({ inverted: !state.inverted }))
+	};
+}
+
+export const priceDisplayStore = createPriceDisplayStore();
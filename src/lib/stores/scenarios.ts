@@ -0,0 +1,84 @@
+import { writable, derived } from 'svelte/store';
+import type { Scenario } from '$lib/types';
+import { strategyRegistry, type StrategyType, type TokenDecimals } from '$lib/strategies';
+import {
+	getScenarioParameters,
+	parseStoredScenarios,
+	summarizeScenario
+} from '$lib/analysis/scenarios';
+import { getLocalStorage, readStoredJson, writeStoredJson } from '$lib/utils/storage';
+import { strategyStore } from './strategy';
+
+const SCENARIOS_STORAGE_KEY = 'scenarios';
+
+/**
+ * Saved parameter sets for side by side comparison, kept in the browser between visits
+ */
+function createScenarioStore() {
+	const storage = getLocalStorage();
+	const stored = parseStoredScenarios(readStoredJson<unknown>(storage, SCENARIOS_STORAGE_KEY, []));
+	const { subscribe, update, set } = writable<Scenario[]>(stored);
+	let nextId =
+		Math.max(0, ...stored.map((scenario) => Number(scenario.id.replace('scenario-', '')) || 0)) + 1;
+
+	subscribe((scenarios) => writeStoredJson(storage, SCENARIOS_STORAGE_KEY, scenarios));
+
+	return {
+		subscribe,
+
+		/**
+		 * Save the strategy's field values under a name, replacing a scenario of the same strategy and name
+		 */
+		save: (
+			name: string,
+			strategyKey: StrategyType,
+			fieldValues: Record<string, string>,
+			tokenDecimals: TokenDecimals | null
+		) =>
+			update((scenarios) => {
+				const strategy = strategyRegistry.get(strategyKey);
+				const parameters = strategy ? getScenarioParameters(strategy, fieldValues) : {};
+				const existing = scenarios.find(
+					(scenario) => scenario.strategyKey === strategyKey && scenario.name === name
+				);
+				const scenario: Scenario = {
+					id: existing?.id ?? `scenario-${nextId++}`,
+					name,
+					strategyKey,
+					fieldValues: parameters,
+					tokenDecimals
+				};
+
+				return existing
+					? scenarios.map((item) => (item.id === existing.id ? scenario : item))
+					: [...scenarios, scenario];
+			}),
+
+		/**
+		 * Remove a saved scenario
+		 */
+		remove: (id: string) => update((scenarios) => scenarios.filter((item) => item.id !== id)),
+
+		/**
+		 * Remove every saved scenario
+		 */
+		clear: () => set([])
+	};
+}
+
+export const scenarioStore = createScenarioStore();
+
+/**
+ * Summaries of the scenarios saved for the current strategy
+ */
+export const scenarioComparison = derived(
+	[scenarioStore, strategyStore],
+	([$scenarios, $strategy]) => {
+		const strategy = strategyRegistry.get($strategy.strategyKey);
+		if (!strategy) return [];
+
+		return $scenarios
+			.filter((scenario) => scenario.strategyKey === $strategy.strategyKey)
+			.map((scenario) => summarizeScenario(strategy, scenario));
+	}
+);
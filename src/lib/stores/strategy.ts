@@ -1,6 +1,9 @@
 import { writable, derived } from 'svelte/store';
 import type { StrategyState, StrategyDeployment, NameAndDescriptionCfg } from '$lib/types';
-import { strategyRegistry, type StrategyType } from '$lib/strategies';
+import { strategyRegistry, type StrategyType, type TokenDecimals } from '$lib/strategies';
+import { guiStore } from './gui';
+import { analyzeDepositCoverage, type DepositCoverage } from '$lib/analysis/depositCoverage';
+import { resolveTokenDecimals } from '$lib/utils/decimal';
 import { debugLog } from '$lib/config/debug';
 import { DEFAULT_DEPLOYMENT } from '$lib/config/constants';
 
@@ -16,9 +19,25 @@ function createStrategyStore() {
 		fieldValues: {},
 		allTokensSelected: false,
 		maxReturns: '0',
+		tokenDecimals: null,
 		showAdvancedOptions: false
 	});
 
+	/**
+	 * Exact max returns for the current strategy, in input token units
+	 */
+	function calculateMaxReturns(state: StrategyState, fieldValues: Record<string, string>) {
+		const strategy = strategyRegistry.get(state.strategyKey);
+		if (!strategy) return '0';
+
+		const calculations = strategy.getCalculations();
+		const decimals = state.tokenDecimals ?? undefined;
+
+		return calculations.calculateExactMaxReturns
+			? calculations.calculateExactMaxReturns(fieldValues, decimals)
+			: calculations.calculateMaxReturns(fieldValues, decimals).toString();
+	}
+
 	return {
 		subscribe,
 
@@ -36,7 +55,8 @@ function createStrategyStore() {
 				...state,
 				strategyKey,
 				fieldValues: {},
-				maxReturns: '0'
+				maxReturns: '0',
+				tokenDecimals: null
 			}));
 		},
 
@@ -46,14 +66,7 @@ function createStrategyStore() {
 		setFieldValue: (binding: string, value: string) =>
 			update((state) => {
 				const newFieldValues = { ...state.fieldValues, [binding]: value };
-
-				const strategy = strategyRegistry.get(state.strategyKey);
-				let maxReturns = '0';
-
-				if (strategy) {
-					const calculations = strategy.getCalculations();
-					maxReturns = calculations.calculateMaxReturns(newFieldValues).toString();
-				}
+				const maxReturns = calculateMaxReturns(state, newFieldValues);
 
 				debugLog.log('Field value updated:', { binding, value, maxReturns });
 
@@ -70,14 +83,7 @@ function createStrategyStore() {
 		setFieldValues: (values: Record<string, string>) =>
 			update((state) => {
 				const newFieldValues = { ...state.fieldValues, ...values };
-
-				const strategy = strategyRegistry.get(state.strategyKey);
-				let maxReturns = '0';
-
-				if (strategy) {
-					const calculations = strategy.getCalculations();
-					maxReturns = calculations.calculateMaxReturns(newFieldValues).toString();
-				}
+				const maxReturns = calculateMaxReturns(state, newFieldValues);
 
 				return {
 					...state,
@@ -90,16 +96,18 @@ function createStrategyStore() {
 		 * Calculate max returns using current strategy
 		 */
 		calculateMaxReturns: () =>
-			update((state) => {
-				const strategy = strategyRegistry.get(state.strategyKey);
-				let maxReturns = '0';
-
-				if (strategy) {
-					const calculations = strategy.getCalculations();
-					maxReturns = calculations.calculateMaxReturns(state.fieldValues).toString();
-				}
+			update((state) => ({
+				...state,
+				maxReturns: calculateMaxReturns(state, state.fieldValues)
+			})),
 
-				return { ...state, maxReturns };
+		/**
+		 * Set token decimals used for exact calculations and recalculate returns
+		 */
+		setTokenDecimals: (tokenDecimals: TokenDecimals | null) =>
+			update((state) => {
+				const newState = { ...state, tokenDecimals };
+				return { ...newState, maxReturns: calculateMaxReturns(newState, state.fieldValues) };
 			}),
 
 		setStrategyDetails: (details: NameAndDescriptionCfg) =>
@@ -133,6 +141,7 @@ function createStrategyStore() {
 				allTokensSelected: false,
 				fieldValues: {},
 				maxReturns: '0.00',
+				tokenDecimals: null,
 				showAdvancedOptions: false
 			})
 	};
@@ -156,8 +165,60 @@ export const gridLevels = derived([strategyStore], ([$strategy]) => {
 		'calculateGridLevels' in calculations &&
 		typeof calculations.calculateGridLevels === 'function'
 	) {
-		return calculations.calculateGridLevels($strategy.fieldValues);
+		return calculations.calculateGridLevels(
+			$strategy.fieldValues,
+			$strategy.tokenDecimals ?? undefined
+		);
 	}
 
 	return [];
 });
+
+/**
+ * Derived store for the DCA buy schedule (strategy-specific)
+ */
+export const dcaSchedule = derived([strategyStore], ([$strategy]) => {
+	const strategy = strategyRegistry.get($strategy.strategyKey);
+
+	if (!strategy || $strategy.strategyKey !== 'dca') {
+		return [];
+	}
+
+	const calculations = strategy.getCalculations();
+
+	if (typeof calculations.calculateSchedule === 'function') {
+		return calculations.calculateSchedule(
+			$strategy.fieldValues,
+			$strategy.tokenDecimals ?? undefined
+		);
+	}
+
+	return [];
+});
+
+/**
+ * How far the entered deposits go across the grid levels, one entry per funded side
+ */
+export const depositCoverage = derived(
+	[strategyStore, gridLevels, guiStore],
+	([$strategy, $gridLevels, $gui]) => {
+		if ($gridLevels.length === 0) return [];
+
+		const decimals = resolveTokenDecimals($strategy.tokenDecimals ?? undefined);
+		const coverage: DepositCoverage[] = [];
+		const outputKey = $gui.tokenOutputs[0]?.token?.key;
+		const inputKey = $gui.tokenInputs[0]?.token?.key;
+
+		if (outputKey) {
+			const deposit = $strategy.fieldValues[`deposits.${outputKey}`] ?? '';
+			coverage.push(analyzeDepositCoverage($gridLevels, deposit, decimals.output, 'sell'));
+		}
+
+		if (inputKey && $gridLevels.some((level) => level.side === 'buy')) {
+			const deposit = $strategy.fieldValues[`deposits.${inputKey}`] ?? '';
+			coverage.push(analyzeDepositCoverage($gridLevels, deposit, decimals.input, 'buy'));
+		}
+
+		return coverage;
+	}
+);
@@ -1,5 +1,6 @@
 import { writable, derived } from 'svelte/store';
 import type { ValidationState } from '$lib/types';
+import type { OnchainValidationResult } from '$lib/services/onchainValidation';
 import { strategyStore } from './strategy';
 import { deploymentStore } from './deployment';
 import { walletStore } from './wallet';
@@ -13,9 +14,14 @@ function createValidationStore() {
 	const { subscribe, set, update } = writable<ValidationState>({
 		isValid: false,
 		errors: {},
-		isValidating: false
+		isValidating: false,
+		onchainErrors: {},
+		warnings: {}
 	});
 
+	let onchainRun = 0;
+	let onchainPending = false;
+
 	return {
 		subscribe,
 
@@ -28,7 +34,7 @@ function createValidationStore() {
 				...state,
 				isValid,
 				errors,
-				isValidating: false
+				isValidating: onchainPending
 			}));
 		},
 
@@ -114,15 +120,56 @@ function createValidationStore() {
 				isValid: false
 			})),
 
+		/**
+		 * Run on-chain checks, keeping isValidating set until the latest run settles.
+		 * Results of a run superseded by a newer one are dropped.
+		 */
+		runOnchainValidation: async (check: () => Promise<OnchainValidationResult>) => {
+			const run = ++onchainRun;
+			onchainPending = true;
+			update((state) => ({ ...state, isValidating: true }));
+
+			let result: OnchainValidationResult = { errors: {}, warnings: {} };
+			try {
+				result = await check();
+			} catch (error) {
+				debugLog.warn('On-chain validation failed:', error);
+			}
+
+			if (run !== onchainRun) return;
+
+			onchainPending = false;
+			update((state) => ({
+				...state,
+				onchainErrors: result.errors,
+				warnings: result.warnings,
+				isValidating: false
+			}));
+		},
+
+		/**
+		 * Clear on-chain errors and warnings, dropping any run still in flight
+		 */
+		clearOnchainValidation: () => {
+			onchainRun++;
+			onchainPending = false;
+			update((state) => ({ ...state, onchainErrors: {}, warnings: {}, isValidating: false }));
+		},
+
 		/**
 		 * Reset validation state
 		 */
-		reset: () =>
+		reset: () => {
+			onchainRun++;
+			onchainPending = false;
 			set({
 				isValid: false,
 				errors: {},
-				isValidating: false
-			})
+				isValidating: false,
+				onchainErrors: {},
+				warnings: {}
+			});
+		}
 	};
 }
 
@@ -146,9 +193,7 @@ export const hasRequiredValues = derived([strategyStore], ([$strategy]) => {
 		.map((field) => field.binding);
 
 	const fieldsToCheck =
-		requiredFields.length > 0
-			? requiredFields
-			: ['baseline-io-ratio', 'io-ratio-growth', 'tranche-size'];
+		requiredFields.length > 0 ? requiredFields : strategyConfig.getRequiredFields();
 
 	const hasValues = fieldsToCheck.every((field) => {
 		const value = $strategy.fieldValues[field];
@@ -176,6 +221,8 @@ export const canSubmit = derived(
 		const tokensSelected = $strategy.allTokensSelected;
 		const hasValues = $hasRequiredValues;
 		const formValid = $validation.isValid && Object.keys($validation.errors).length === 0;
+		const onchainValid =
+			!$validation.isValidating && Object.keys($validation.onchainErrors).length === 0;
 		const notDeploying = !$deployment.isDeploying;
 
 		debugLog.log('canSubmit check:', {
@@ -183,13 +230,16 @@ export const canSubmit = derived(
 			tokensSelected,
 			hasValues,
 			formValid,
+			onchainValid,
 			notDeploying,
 			validationErrors: $validation.errors,
 			fieldValues: $strategy.fieldValues,
 			strategyKey: $strategy.strategyKey
 		});
 
-		return walletConnected && tokensSelected && hasValues && formValid && notDeploying;
+		return (
+			walletConnected && tokensSelected && hasValues && formValid && onchainValid && notDeploying
+		);
 	}
 );
 
@@ -227,6 +277,23 @@ export const formValidationStatus = derived(
 			};
 		}
 
+		const onchainErrorCount = Object.keys($validation.onchainErrors).length;
+		if (onchainErrorCount > 0) {
+			return {
+				isValid: false,
+				message: `Please fix on-chain checks (${onchainErrorCount} errors)`,
+				type: 'error'
+			};
+		}
+
+		if ($validation.isValidating) {
+			return {
+				isValid: false,
+				message: 'Checking balances and tokens on-chain...',
+				type: 'warning'
+			};
+		}
+
 		if ($validation.isValid && $hasRequiredValues) {
 			return {
 				isValid: true,
@@ -1,6 +1,7 @@
 import { writable } from 'svelte/store';
 import { browser } from '$app/environment';
-import type { WalletState } from '$lib/types';
+import type { AppError, WalletState } from '$lib/types';
+import { toAppError } from '$lib/utils/errors';
 import type { Hex } from 'viem';
 import { getNetworkNamesByChainId } from '$lib/utils/helpers';
 
@@ -57,7 +58,7 @@ function createWalletStore() {
 				await setupAppKitListeners();
 			} catch (error) {
 				console.error('Failed to initialize wallet state:', error);
-				store.setError(error instanceof Error ? error.message : 'Initialization failed');
+				store.setError(toAppError(error, 'UNKNOWN', 'Could not restore your wallet connection.'));
 			}
 		},
 
@@ -128,7 +129,7 @@ function createWalletStore() {
 		/**
 		 * Set wallet error
 		 */
-		setError: (error: string) =>
+		setError: (error: AppError) =>
 			update((state) => ({
 				...state,
 				error,
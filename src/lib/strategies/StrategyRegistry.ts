@@ -1,5 +1,6 @@
 import type { StrategyConfig, StrategyType } from './base/types';
 import { GridStrategyConfig } from './grid/GridStrategyConfig';
+import { DcaStrategyConfig } from './dca/DcaStrategyConfig';
 
 /**
  * Strategy registry for managing different strategy configurations
@@ -9,12 +10,17 @@ class StrategyRegistry {
 
 	constructor() {
 		this.register('grid', new GridStrategyConfig());
+		this.register('dca', new DcaStrategyConfig());
 	}
 
 	register(key: StrategyType, strategy: StrategyConfig): void {
 		this.strategies.set(key, strategy);
 	}
 
+	has(key: StrategyType): boolean {
+		return this.strategies.has(key);
+	}
+
 	get(key: StrategyType): StrategyConfig | null {
 		return this.strategies.get(key) || null;
 	}
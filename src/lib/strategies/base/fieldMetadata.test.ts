@@ -0,0 +1,135 @@
+import { describe, it, expect } from 'vitest';
+import { fieldDefinitionToMetadata, FieldMetadataSet } from './fieldMetadata';
+import type { GuiFieldDefinitionCfg } from '$lib/types';
+
+describe('Field Metadata Adapter', () => {
+	const trancheSize: GuiFieldDefinitionCfg = {
+		binding: 'tranche-size',
+		name: 'Tranche size',
+		description: 'Amount sold per level',
+		presets: [
+			{ id: '0', name: 'Small', value: '10' },
+			{ id: '1', value: '100' }
+		]
+	};
+
+	describe('fieldDefinitionToMetadata', () => {
+		it('should derive metadata from the dotrain definition', () => {
+			expect(fieldDefinitionToMetadata(trancheSize)).toEqual({
+				binding: 'tranche-size',
+				label: 'Tranche size',
+				description: 'Amount sold per level',
+				inputType: 'number',
+				placeholder: 'Tranche size',
+				helpText: '',
+				presets: [
+					{ value: '10', label: 'Small' },
+					{ value: '100', label: '100' }
+				],
+				validation: { required: true }
+			});
+		});
+
+		it('should treat fields with defaults as optional', () => {
+			const metadata = fieldDefinitionToMetadata({
+				binding: 'seconds-per-tranche',
+				name: 'Seconds per tranche',
+				default: '3600'
+			});
+
+			expect(metadata.defaultValue).toBe('3600');
+			expect(metadata.placeholder).toBe('e.g., 3600');
+			expect(metadata.validation?.required).toBe(false);
+		});
+
+		it('should use text inputs for non-numeric values', () => {
+			const metadata = fieldDefinitionToMetadata({
+				binding: 'label',
+				name: 'Label',
+				default: 'grid'
+			});
+
+			expect(metadata.inputType).toBe('text');
+		});
+
+		it('should use select inputs when custom values are hidden', () => {
+			const metadata = fieldDefinitionToMetadata({ ...trancheSize, showCustomField: false });
+
+			expect(metadata.inputType).toBe('select');
+			expect(metadata.options).toEqual(metadata.presets);
+		});
+	});
+
+	describe('FieldMetadataSet', () => {
+		const overrides = {
+			'tranche-size': {
+				inputType: 'number' as const,
+				placeholder: 'e.g., 1000',
+				helpText: 'Tokens per level',
+				step: '0.001'
+			},
+			'level-count': {
+				inputType: 'number' as const,
+				label: 'Number of Grid Levels',
+				placeholder: 'e.g., 5',
+				helpText: 'Levels above the baseline',
+				local: true
+			}
+		};
+
+		it('should return overrides alone before definitions are loaded', () => {
+			const fields = new FieldMetadataSet(overrides);
+
+			expect(fields.getAll().map((field) => field.binding)).toEqual([
+				'tranche-size',
+				'level-count'
+			]);
+			expect(fields.get('tranche-size')).toEqual({
+				binding: 'tranche-size',
+				...overrides['tranche-size']
+			});
+		});
+
+		it('should layer overrides over dotrain definitions', () => {
+			const fields = new FieldMetadataSet(overrides);
+			fields.setFieldDefinitions([trancheSize]);
+
+			expect(fields.get('tranche-size')).toMatchObject({
+				label: 'Tranche size',
+				description: 'Amount sold per level',
+				placeholder: 'e.g., 1000',
+				helpText: 'Tokens per level',
+				step: '0.001',
+				validation: { required: true }
+			});
+		});
+
+		it('should pick up dotrain fields without overrides', () => {
+			const fields = new FieldMetadataSet(overrides);
+			fields.setFieldDefinitions([
+				trancheSize,
+				{ binding: 'max-spread', name: 'Max spread', default: '0.01' }
+			]);
+
+			expect(fields.getAll().map((field) => field.binding)).toEqual([
+				'tranche-size',
+				'max-spread',
+				'level-count'
+			]);
+			expect(fields.get('max-spread')).toMatchObject({
+				label: 'Max spread',
+				inputType: 'number',
+				defaultValue: '0.01'
+			});
+		});
+
+		it('should drop fields removed from the dotrain source', () => {
+			const fields = new FieldMetadataSet();
+			fields.setFieldDefinitions([trancheSize]);
+			fields.setFieldDefinitions([]);
+
+			expect(fields.get('tranche-size')).toBeNull();
+			expect(fields.getAll()).toEqual([]);
+		});
+	});
+});
@@ -0,0 +1,101 @@
+import type { FieldMetadata, GuiFieldDefinitionCfg } from '$lib/types';
+
+/**
+ * Frontend-only details layered over a dotrain field definition, keyed by binding
+ */
+export type FieldMetadataOverride = Partial<Omit<FieldMetadata, 'binding'>>;
+
+/**
+ * Whether a value parses as a finite number
+ */
+function isNumeric(value: string | undefined): boolean {
+	return value !== undefined && value.trim() !== '' && Number.isFinite(Number(value));
+}
+
+/**
+ * Build field metadata from a dotrain field definition
+ *
+ * Fields without a default are required, and fields whose default and presets are all numeric
+ * get a number input. Presets become select options when the field hides its custom input.
+ */
+export function fieldDefinitionToMetadata(definition: GuiFieldDefinitionCfg): FieldMetadata {
+	const presets = (definition.presets || []).map((preset) => ({
+		value: preset.value,
+		label: preset.name || preset.value
+	}));
+	const suggestedValues = [definition.default, ...presets.map((preset) => preset.value)].filter(
+		(value): value is string => value !== undefined
+	);
+	const isSelect = definition.showCustomField === false && presets.length > 0;
+
+	const metadata: FieldMetadata = {
+		binding: definition.binding,
+		label: definition.name,
+		inputType: isSelect
+			? 'select'
+			: suggestedValues.length > 0 && suggestedValues.every(isNumeric)
+				? 'number'
+				: 'text',
+		placeholder: definition.default ? `e.g., ${definition.default}` : definition.name,
+		helpText: '',
+		validation: { required: definition.default === undefined }
+	};
+
+	if (definition.description) metadata.description = definition.description;
+	if (definition.default !== undefined) metadata.defaultValue = definition.default;
+	if (presets.length > 0) metadata.presets = presets;
+	if (isSelect) metadata.options = presets;
+
+	return metadata;
+}
+
+/**
+ * Field metadata built from dotrain field definitions merged with local overrides
+ *
+ * Overrides win over derived values. Fields that only exist as overrides (local fields, or
+ * dotrain fields before the GUI is loaded) are kept after the dotrain fields.
+ */
+export class FieldMetadataSet {
+	private metadata = new Map<string, FieldMetadata>();
+
+	constructor(private overrides: Record<string, FieldMetadataOverride> = {}) {
+		this.setFieldDefinitions([]);
+	}
+
+	/**
+	 * Replace the dotrain field definitions the metadata is derived from
+	 */
+	setFieldDefinitions(definitions: GuiFieldDefinitionCfg[]): void {
+		const metadata = new Map<string, FieldMetadata>();
+
+		definitions.forEach((definition) => {
+			const override = this.overrides[definition.binding];
+			metadata.set(definition.binding, {
+				...fieldDefinitionToMetadata(definition),
+				...override
+			});
+		});
+
+		Object.entries(this.overrides).forEach(([binding, override]) => {
+			if (!metadata.has(binding)) {
+				metadata.set(binding, {
+					binding,
+					inputType: 'text',
+					placeholder: '',
+					helpText: '',
+					...override
+				});
+			}
+		});
+
+		this.metadata = metadata;
+	}
+
+	get(binding: string): FieldMetadata | null {
+		return this.metadata.get(binding) || null;
+	}
+
+	getAll(): FieldMetadata[] {
+		return Array.from(this.metadata.values());
+	}
+}
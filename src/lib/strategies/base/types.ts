@@ -1,19 +1,96 @@
-import type { FieldMetadata } from '$lib/types';
+import type { FieldMetadata, GuiFieldDefinitionCfg } from '$lib/types';
 import type { ZodSchema } from 'zod';
 
-export type StrategyType = 'grid';
+/**
+ * Strategies bundled with the app
+ */
+export type BuiltInStrategyType = 'grid' | 'dca';
+
+/**
+ * Registry key, either a bundled strategy or one loaded from a dotrain file at runtime
+ */
+export type StrategyType = BuiltInStrategyType | `custom:${string}`;
+
+/**
+ * How prices are spaced between grid levels
+ */
+export type GridSpacingMode = 'geometric' | 'arithmetic';
+
+/**
+ * Whether a grid places sell levels only, or buy levels below the baseline as well
+ */
+export type GridMode = 'one-sided' | 'two-sided';
+
+/**
+ * How tranche sizes change from one level to the next, moving away from the baseline
+ */
+export type TrancheScaling = 'constant' | 'linear' | 'geometric';
+
+/**
+ * Whether grid levels are derived from the baseline and growth, or edited one by one
+ */
+export type GridLadderMode = 'derived' | 'custom';
+
+/**
+ * Single level of a custom ladder, as entered by the user
+ */
+export interface LadderEntry {
+	/** Io ratio as a decimal string */
+	price: string;
+	/** Output token amount as a decimal string */
+	amount: string;
+}
+
+/**
+ * Side of the book a grid level trades on
+ */
+export type GridSide = 'buy' | 'sell';
 
 /**
  * Grid level information for visualization
  */
 export interface GridLevel {
 	amount: number; // trancheSize;
-	/** Negative level index (-1, -2, etc.) */
+	/** Level index, positive above the baseline (1, 2, etc.) and negative below it (-1, -2, etc.) */
 	level: number;
+	/** Sell levels sell the output token, buy levels buy it back with the input token */
+	side: GridSide;
 	/** Price at this level (USDC.e per WFLR) */
 	price: number;
-	/** Total value of the order (price * trancheSize) */
+	/** Input token value of the order (price * amount), received by sells and spent by buys */
 	total: number;
+	/** Fixed point values the float fields are derived from */
+	exact?: GridLevelExact;
+}
+
+/**
+ * Fixed point grid level values, as the orderbook sees them
+ */
+export interface GridLevelExact {
+	/** Io ratio with `RATIO_DECIMALS` decimals */
+	price: bigint;
+	/** Output token amount with the output token's decimals */
+	amount: bigint;
+	/** Input token amount with the input token's decimals */
+	total: bigint;
+}
+
+/**
+ * Token keys of the strategy's input and output, used to tell deposits apart
+ */
+export interface TokenKeys {
+	input: string;
+	output: string;
+}
+
+/**
+ * Decimals of the tokens the strategy trades, from `TokenInfo.decimals`
+ */
+export interface TokenDecimals {
+	/** Token received */
+	input: number;
+	/** Token sold */
+	output: number;
 }
 
 export type GridStrategyFields =
@@ -23,14 +100,63 @@ export type GridStrategyFields =
 	| 'parameters.baseline-io-ratio'
 	| 'parameters.io-ratio-growth'
 	| 'parameters.tranche-size'
-	| 'parameters.seconds-per-tranche';
+	| 'parameters.seconds-per-tranche'
+	| 'parameters.level-count'
+	| 'parameters.spacing-mode'
+	| 'parameters.price-step'
+	| 'parameters.grid-mode'
+	| 'parameters.buy-level-count'
+	| 'parameters.buy-tranche-size'
+	| 'parameters.tranche-scaling'
+	| 'parameters.tranche-growth'
+	| 'parameters.ladder-mode'
+	| 'parameters.custom-ladder';
+
+/**
+ * Single buy in a DCA schedule
+ */
+export interface DcaScheduleEntry {
+	/** 1-based epoch index */
+	epoch: number;
+	/** Seconds from deployment until the epoch's budget is available */
+	time: number;
+	/** Output token spent in this epoch */
+	amount: number;
+	/** Output token spent up to and including this epoch */
+	cumulativeAmount: number;
+	/** Input token received at the baseline price */
+	minReceived: number;
+}
+
+export type DcaStrategyFields =
+	| 'parameters'
+	| 'deposits'
+	| 'vaultIds'
+	| 'parameters.time-per-amount-epoch'
+	| 'parameters.amount-per-epoch'
+	| 'parameters.max-trade-amount'
+	| 'parameters.min-trade-amount'
+	| 'parameters.baseline'
+	| 'parameters.epoch-count';
 
 /**
  * Strategy calculation interface
  */
 export interface StrategyCalculations {
-	calculateMaxReturns(fieldValues: Record<string, string>): number;
-	calculateGridLevels?(fieldValues: Record<string, string>): GridLevel[];
+	calculateMaxReturns(fieldValues: Record<string, string>, decimals?: TokenDecimals): number;
+	/** Max returns as an exact decimal string in input token units */
+	calculateExactMaxReturns?(fieldValues: Record<string, string>, decimals?: TokenDecimals): string;
+	calculateGridLevels?(fieldValues: Record<string, string>, decimals?: TokenDecimals): GridLevel[];
+	calculateRequiredDeposit?(fieldValues: Record<string, string>, decimals?: TokenDecimals): number;
+	/** Input token needed to fund every buy level of a two-sided grid */
+	calculateRequiredBuyDeposit?(
+		fieldValues: Record<string, string>,
+		decimals?: TokenDecimals
+	): number;
+	calculateSchedule?(
+		fieldValues: Record<string, string>,
+		decimals?: TokenDecimals
+	): DcaScheduleEntry[];
 }
 
 /**
@@ -40,13 +166,22 @@ export interface StrategyConfig {
 	readonly name: string;
 	readonly description: string;
 	readonly version: string;
+	/** URL of the dotrain source the strategy deploys, or the file name for uploaded sources */
+	readonly sourceUrl: string;
+	/** Dotrain source already in memory, used instead of fetching `sourceUrl` */
+	readonly dotrain?: string;
 
-	getValidationSchema(): ZodSchema;
+	/** Schema for the form values, token keys tell the input and output deposits apart */
+	getValidationSchema(decimals?: TokenDecimals, tokenKeys?: TokenKeys): ZodSchema;
 
 	getFieldMetadata(binding: string): FieldMetadata | null;
 	getAllFieldMetadata(): FieldMetadata[];
+	/** Derive field metadata from the loaded dotrain GUI's field definitions */
+	setFieldDefinitions(definitions: GuiFieldDefinitionCfg[]): void;
 
 	getCalculations(): StrategyCalculations;
 
+	getRequiredFields(): string[];
+
 	getCustomComponents?(): Record<string, unknown>;
 }
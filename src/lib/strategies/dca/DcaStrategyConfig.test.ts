@@ -0,0 +1,149 @@
+import { describe, it, expect } from 'vitest';
+import {
+	DcaStrategyConfig,
+	DEFAULT_DCA_EPOCH_COUNT,
+	MAX_DCA_EPOCH_COUNT,
+	getDcaEpochCount
+} from './DcaStrategyConfig';
+import { strategyRegistry } from '../StrategyRegistry';
+
+describe('DcaStrategyConfig', () => {
+	const dcaStrategy = new DcaStrategyConfig();
+	const validFieldValues = {
+		'time-per-amount-epoch': '86400',
+		'amount-per-epoch': '100',
+		baseline: '0.5'
+	};
+
+	describe('Basic Properties', () => {
+		it('should have correct basic properties', () => {
+			expect(dcaStrategy.name).toBe('DCA');
+			expect(dcaStrategy.version).toBe('1.0.0');
+			expect(dcaStrategy.sourceUrl).toMatch(/auction-dca\.rain$/);
+		});
+
+		it('should be registered alongside the grid strategy', () => {
+			const keys = strategyRegistry.list().map((strategy) => strategy.key);
+
+			expect(keys).toEqual(['grid', 'dca']);
+			expect(strategyRegistry.get('dca')?.name).toBe('DCA');
+		});
+	});
+
+	describe('Field Metadata', () => {
+		it('should describe every dca field', () => {
+			const bindings = dcaStrategy.getAllFieldMetadata().map((field) => field.binding);
+
+			expect(bindings).toEqual([
+				'time-per-amount-epoch',
+				'amount-per-epoch',
+				'baseline',
+				'max-trade-amount',
+				'min-trade-amount',
+				'epoch-count'
+			]);
+		});
+
+		it('should mark epoch-count as a local field with a default', () => {
+			const metadata = dcaStrategy.getFieldMetadata('epoch-count');
+
+			expect(metadata?.local).toBe(true);
+			expect(metadata?.defaultValue).toBe(`${DEFAULT_DCA_EPOCH_COUNT}`);
+		});
+
+		it('should return required fields', () => {
+			expect(dcaStrategy.getRequiredFields()).toEqual([
+				'time-per-amount-epoch',
+				'amount-per-epoch',
+				'baseline'
+			]);
+		});
+	});
+
+	describe('Validation Schema', () => {
+		it('should validate minimal correct data', () => {
+			const result = dcaStrategy.getValidationSchema().safeParse({ parameters: validFieldValues });
+
+			expect(result.success).toBe(true);
+		});
+
+		it('should reject fractional or zero epoch lengths', () => {
+			const schema = dcaStrategy.getValidationSchema();
+
+			['0', '1.5', 'abc'].forEach((value) => {
+				const result = schema.safeParse({
+					parameters: { ...validFieldValues, 'time-per-amount-epoch': value }
+				});
+				expect(result.success).toBe(false);
+			});
+		});
+
+		it('should reject amounts finer than the output token supports', () => {
+			const result = dcaStrategy
+				.getValidationSchema({ input: 18, output: 6 })
+				.safeParse({ parameters: { ...validFieldValues, 'amount-per-epoch': '1.0000001' } });
+
+			expect(result.success).toBe(false);
+		});
+
+		it('should reject a minimum trade above the maximum trade', () => {
+			const result = dcaStrategy.getValidationSchema().safeParse({
+				parameters: { ...validFieldValues, 'max-trade-amount': '10', 'min-trade-amount': '20' }
+			});
+
+			expect(result.success).toBe(false);
+			if (!result.success) {
+				expect(result.error.issues[0].path).toEqual(['parameters', 'min-trade-amount']);
+			}
+		});
+	});
+
+	describe('Calculations', () => {
+		const calculations = dcaStrategy.getCalculations();
+
+		it('should build one buy per epoch', () => {
+			const schedule = calculations.calculateSchedule!({ ...validFieldValues, 'epoch-count': '3' });
+
+			expect(schedule).toEqual([
+				{ epoch: 1, time: 0, amount: 100, cumulativeAmount: 100, minReceived: 50 },
+				{ epoch: 2, time: 86400, amount: 100, cumulativeAmount: 200, minReceived: 50 },
+				{ epoch: 3, time: 172800, amount: 100, cumulativeAmount: 300, minReceived: 50 }
+			]);
+		});
+
+		it('should default and cap the epoch count', () => {
+			expect(getDcaEpochCount({})).toBe(DEFAULT_DCA_EPOCH_COUNT);
+			expect(getDcaEpochCount({ 'epoch-count': '2.5' })).toBe(DEFAULT_DCA_EPOCH_COUNT);
+			expect(getDcaEpochCount({ 'epoch-count': '10000' })).toBe(MAX_DCA_EPOCH_COUNT);
+		});
+
+		it('should return an empty schedule for missing parameters', () => {
+			expect(calculations.calculateSchedule!({ ...validFieldValues, baseline: '' })).toEqual([]);
+			expect(
+				calculations.calculateSchedule!({ ...validFieldValues, 'time-per-amount-epoch': '0' })
+			).toEqual([]);
+		});
+
+		it('should calculate returns at the baseline price', () => {
+			expect(calculations.calculateMaxReturns(validFieldValues)).toBe(500);
+			expect(calculations.calculateExactMaxReturns!(validFieldValues)).toBe('500');
+			expect(calculations.calculateMaxReturns({})).toBe(0);
+		});
+
+		it('should require a deposit covering every epoch', () => {
+			expect(calculations.calculateRequiredDeposit!(validFieldValues)).toBe(1000);
+			expect(
+				calculations.calculateRequiredDeposit!({ ...validFieldValues, 'epoch-count': '4' })
+			).toBe(400);
+		});
+
+		it('should use token decimals for exact amounts', () => {
+			const exact = calculations.calculateExactMaxReturns!(
+				{ ...validFieldValues, 'amount-per-epoch': '0.000003', baseline: '0.3333333' },
+				{ input: 6, output: 6 }
+			);
+
+			expect(exact).toBe('0.000009');
+		});
+	});
+});
@@ -0,0 +1,321 @@
+import { z } from 'zod';
+import type {
+	StrategyConfig,
+	StrategyCalculations,
+	DcaScheduleEntry,
+	TokenDecimals
+} from '../base/types';
+import type { FieldMetadata, GuiFieldDefinitionCfg } from '$lib/types';
+import { FieldMetadataSet, type FieldMetadataOverride } from '../base/fieldMetadata';
+import { DCA_STRATEGY_PATH } from '$lib/config/constants';
+import {
+	RATIO_DECIMALS,
+	resolveTokenDecimals,
+	toFixedPoint,
+	fromFixedPoint,
+	toDisplayNumber,
+	mulFixedPoint,
+	countDecimalPlaces
+} from '$lib/utils/decimal';
+
+/**
+ * Number of epochs shown in the schedule when `epoch-count` is not set
+ */
+export const DEFAULT_DCA_EPOCH_COUNT = 10;
+
+/**
+ * Upper bound for `epoch-count`
+ */
+export const MAX_DCA_EPOCH_COUNT = 365;
+
+/**
+ * DCA strategy field overrides, layered over the dotrain field definitions
+ */
+const DCA_FIELD_OVERRIDES: Record<string, FieldMetadataOverride> = {
+	'time-per-amount-epoch': {
+		inputType: 'number',
+		placeholder: 'e.g., 86400 (1 day)',
+		helpText: 'Seconds between buys. A new amount-per-epoch budget unlocks every epoch.',
+		step: '1',
+		min: '1',
+		validation: {
+			required: true,
+			customMessage: 'Must be a whole number of seconds greater than 0'
+		}
+	},
+	'amount-per-epoch': {
+		inputType: 'number',
+		placeholder: 'e.g., 100 (tokens per epoch)',
+		helpText: 'Amount of tokens to spend in each epoch.',
+		step: '0.001',
+		min: '0',
+		validation: {
+			required: true,
+			customMessage: 'Must be a positive number (e.g., 100)',
+			rules: [
+				{
+					operator: 'lte',
+					field: 'deposits.output',
+					message: 'The deposit must cover at least one epoch'
+				}
+			]
+		}
+	},
+	baseline: {
+		inputType: 'number',
+		placeholder: 'e.g., 0.0005 (minimum price)',
+		helpText: 'Lowest price the strategy accepts. Trades never execute below this ratio.',
+		step: '0.0001',
+		min: '0',
+		ratio: true,
+		validation: {
+			required: true,
+			customMessage: 'Must be a positive number representing the minimum price'
+		}
+	},
+	'max-trade-amount': {
+		inputType: 'number',
+		placeholder: 'e.g., 50',
+		helpText: 'Largest amount a single trade may spend. Leave empty to use the epoch amount.',
+		step: '0.001',
+		min: '0',
+		validation: {
+			required: false,
+			customMessage: 'Must be a positive number'
+		}
+	},
+	'min-trade-amount': {
+		inputType: 'number',
+		placeholder: 'e.g., 5',
+		helpText: 'Smallest amount a single trade may spend.',
+		step: '0.001',
+		min: '0',
+		validation: {
+			required: false,
+			customMessage: 'Must be a positive number',
+			rules: [
+				{
+					operator: 'lte',
+					field: 'max-trade-amount',
+					message: 'Must not be more than the max trade amount'
+				}
+			]
+		}
+	},
+	'epoch-count': {
+		label: 'Number of Epochs',
+		inputType: 'number',
+		placeholder: `e.g., ${DEFAULT_DCA_EPOCH_COUNT}`,
+		helpText: 'How many epochs to plan for. Sets the schedule length and the deposit needed.',
+		step: '1',
+		min: '1',
+		max: `${MAX_DCA_EPOCH_COUNT}`,
+		defaultValue: `${DEFAULT_DCA_EPOCH_COUNT}`,
+		local: true,
+		validation: {
+			required: false,
+			customMessage: `Must be a whole number between 1 and ${MAX_DCA_EPOCH_COUNT}`
+		}
+	}
+};
+
+/**
+ * DCA strategy validation schemas
+ */
+const RATIO_ONE = 10n ** BigInt(RATIO_DECIMALS);
+
+const timePerAmountEpochSchema = z
+	.string()
+	.min(1, 'Epoch length is required')
+	.refine((val) => {
+		const num = Number(val);
+		return Number.isInteger(num) && num > 0 && num <= 31536000;
+	}, 'Must be a whole number of seconds between 1 and 31,536,000 (1 year)');
+
+const baselineSchema = z
+	.string()
+	.min(1, 'Baseline is required')
+	.refine((val) => {
+		const ratio = toFixedPoint(val, RATIO_DECIMALS);
+		return ratio !== null && ratio > 0n && ratio <= 10000n * RATIO_ONE;
+	}, 'Must be a positive number (e.g., 0.5)');
+
+const epochCountSchema = z
+	.string()
+	.refine((val) => {
+		if (!val || val.trim() === '') return true;
+		const num = Number(val);
+		return Number.isInteger(num) && num >= 1 && num <= MAX_DCA_EPOCH_COUNT;
+	}, `Must be a whole number between 1 and ${MAX_DCA_EPOCH_COUNT}`)
+	.transform((val) => val || `${DEFAULT_DCA_EPOCH_COUNT}`);
+
+/**
+ * Output token amount schema, limited to the precision of the output token
+ */
+function createAmountSchema(decimals: number, required: boolean) {
+	return z
+		.string()
+		.refine((val) => {
+			if (!val || val.trim() === '') return !required;
+			const amount = toFixedPoint(val, decimals);
+			return amount !== null && amount > 0n;
+		}, 'Must be a positive number (e.g., 100)')
+		.refine(
+			(val) => !val || countDecimalPlaces(val) <= decimals,
+			`Must have at most ${decimals} decimal places`
+		);
+}
+
+/**
+ * Resolve the configured number of epochs, falling back to the default
+ */
+export function getDcaEpochCount(fieldValues: Record<string, string>): number {
+	const epochCount = Number(fieldValues['epoch-count']);
+
+	if (!Number.isInteger(epochCount) || epochCount < 1) {
+		return DEFAULT_DCA_EPOCH_COUNT;
+	}
+
+	return Math.min(epochCount, MAX_DCA_EPOCH_COUNT);
+}
+
+/**
+ * DCA strategy calculations
+ *
+ * Every epoch spends `amount-per-epoch` of the output token. Returns are the minimum input
+ * received, assuming each buy fills at the baseline ratio.
+ */
+class DcaCalculations implements StrategyCalculations {
+	calculateMaxReturns(fieldValues: Record<string, string>, decimals?: TokenDecimals): number {
+		const { input } = resolveTokenDecimals(decimals);
+		return toDisplayNumber(this.sumMinReceived(fieldValues, decimals), input);
+	}
+
+	calculateExactMaxReturns(fieldValues: Record<string, string>, decimals?: TokenDecimals): string {
+		const { input } = resolveTokenDecimals(decimals);
+		return fromFixedPoint(this.sumMinReceived(fieldValues, decimals), input);
+	}
+
+	calculateSchedule(
+		fieldValues: Record<string, string>,
+		decimals?: TokenDecimals
+	): DcaScheduleEntry[] {
+		const { input, output } = resolveTokenDecimals(decimals);
+		const epochSeconds = Number(fieldValues['time-per-amount-epoch']);
+		const amount = toFixedPoint(fieldValues['amount-per-epoch'] || '0', output);
+		const baseline = toFixedPoint(fieldValues['baseline'] || '0', RATIO_DECIMALS);
+
+		if (!Number.isInteger(epochSeconds) || epochSeconds <= 0 || !amount || !baseline) {
+			return [];
+		}
+
+		const minReceived = mulFixedPoint(amount, output, baseline, RATIO_DECIMALS, input);
+
+		return Array.from({ length: getDcaEpochCount(fieldValues) }, (_, index) => ({
+			epoch: index + 1,
+			time: epochSeconds * index,
+			amount: toDisplayNumber(amount, output),
+			cumulativeAmount: toDisplayNumber(amount * BigInt(index + 1), output),
+			minReceived: toDisplayNumber(minReceived, input)
+		}));
+	}
+
+	calculateRequiredDeposit(fieldValues: Record<string, string>, decimals?: TokenDecimals): number {
+		const { output } = resolveTokenDecimals(decimals);
+		return toDisplayNumber(this.calculateExactRequiredDeposit(fieldValues, decimals), output);
+	}
+
+	/**
+	 * Output token needed to fund every epoch, with the output token's decimals
+	 */
+	calculateExactRequiredDeposit(
+		fieldValues: Record<string, string>,
+		decimals?: TokenDecimals
+	): bigint {
+		const { output } = resolveTokenDecimals(decimals);
+		const amount = toFixedPoint(fieldValues['amount-per-epoch'] || '0', output);
+
+		if (!amount) {
+			return 0n;
+		}
+
+		return amount * BigInt(getDcaEpochCount(fieldValues));
+	}
+
+	private sumMinReceived(fieldValues: Record<string, string>, decimals?: TokenDecimals): bigint {
+		const { input, output } = resolveTokenDecimals(decimals);
+		const baseline = toFixedPoint(fieldValues['baseline'] || '0', RATIO_DECIMALS);
+
+		if (!baseline || this.calculateSchedule(fieldValues, decimals).length === 0) {
+			return 0n;
+		}
+
+		const spent = this.calculateExactRequiredDeposit(fieldValues, decimals);
+		return mulFixedPoint(spent, output, baseline, RATIO_DECIMALS, input);
+	}
+}
+
+/**
+ * DCA Strategy Configuration
+ */
+export class DcaStrategyConfig implements StrategyConfig {
+	readonly name = 'DCA';
+	readonly description = 'A strategy that buys a fixed amount on a regular schedule';
+	readonly version = '1.0.0';
+	readonly sourceUrl = DCA_STRATEGY_PATH;
+
+	private calculations = new DcaCalculations();
+	private fields = new FieldMetadataSet(DCA_FIELD_OVERRIDES);
+
+	getValidationSchema(decimals?: TokenDecimals) {
+		const tokenDecimals = resolveTokenDecimals(decimals);
+
+		return z
+			.object({
+				parameters: z.object({
+					'time-per-amount-epoch': timePerAmountEpochSchema,
+					'amount-per-epoch': createAmountSchema(tokenDecimals.output, true),
+					baseline: baselineSchema,
+					'max-trade-amount': createAmountSchema(tokenDecimals.output, false).optional(),
+					'min-trade-amount': createAmountSchema(tokenDecimals.output, false).optional(),
+					'epoch-count': epochCountSchema.optional()
+				}),
+				deposits: z
+					.record(z.string(), createAmountSchema(tokenDecimals.output, false).optional())
+					.optional()
+			})
+			.superRefine((values, ctx) => {
+				const parameters = values.parameters as Record<string, string>;
+				const maxTrade = toFixedPoint(parameters['max-trade-amount'] || '', tokenDecimals.output);
+				const minTrade = toFixedPoint(parameters['min-trade-amount'] || '', tokenDecimals.output);
+
+				if (maxTrade && minTrade && minTrade > maxTrade) {
+					ctx.addIssue({
+						code: z.ZodIssueCode.custom,
+						path: ['parameters', 'min-trade-amount'],
+						message: 'Minimum trade amount cannot exceed the maximum trade amount'
+					});
+				}
+			});
+	}
+
+	getFieldMetadata(binding: string): FieldMetadata | null {
+		return this.fields.get(binding);
+	}
+
+	getAllFieldMetadata(): FieldMetadata[] {
+		return this.fields.getAll();
+	}
+
+	setFieldDefinitions(definitions: GuiFieldDefinitionCfg[]): void {
+		this.fields.setFieldDefinitions(definitions);
+	}
+
+	getCalculations(): StrategyCalculations {
+		return this.calculations;
+	}
+
+	getRequiredFields(): string[] {
+		return ['time-per-amount-epoch', 'amount-per-epoch', 'baseline'];
+	}
+}
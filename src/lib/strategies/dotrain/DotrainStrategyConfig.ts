@@ -0,0 +1,101 @@
+import { z } from 'zod';
+import type { StrategyConfig, StrategyCalculations, TokenDecimals } from '../base/types';
+import type { FieldMetadata, GuiFieldDefinitionCfg } from '$lib/types';
+import { FieldMetadataSet } from '../base/fieldMetadata';
+import { resolveTokenDecimals, toFixedPoint, countDecimalPlaces } from '$lib/utils/decimal';
+
+/**
+ * Details read from a dotrain file's GUI section
+ */
+export interface DotrainStrategyOptions {
+	name: string;
+	description: string;
+	/** Dotrain source */
+	dotrain: string;
+	/** URL or file name the source was loaded from */
+	sourceUrl: string;
+	/** Deployment keys declared by the source */
+	deployments: string[];
+}
+
+/**
+ * Calculations for strategies without a known model, nothing can be projected
+ */
+class DotrainCalculations implements StrategyCalculations {
+	calculateMaxReturns(): number {
+		return 0;
+	}
+}
+
+/**
+ * Strategy configuration built at runtime from a dotrain file
+ *
+ * Field metadata is derived from the dotrain GUI field definitions once the GUI is loaded, and
+ * deposits are checked against the output token's precision.
+ */
+export class DotrainStrategyConfig implements StrategyConfig {
+	readonly name: string;
+	readonly description: string;
+	readonly version = '1.0.0';
+	readonly sourceUrl: string;
+	readonly dotrain: string;
+	readonly deployments: string[];
+
+	private calculations = new DotrainCalculations();
+	private fields = new FieldMetadataSet();
+
+	constructor(options: DotrainStrategyOptions) {
+		this.name = options.name;
+		this.description = options.description;
+		this.sourceUrl = options.sourceUrl;
+		this.dotrain = options.dotrain;
+		this.deployments = options.deployments;
+	}
+
+	getValidationSchema(decimals?: TokenDecimals) {
+		const { output } = resolveTokenDecimals(decimals);
+
+		return z.object({
+			parameters: z.record(z.string(), z.string().optional()).optional(),
+			deposits: z
+				.record(
+					z.string(),
+					z
+						.string()
+						.optional()
+						.refine((val) => {
+							if (!val || val.trim() === '') return true;
+							return toFixedPoint(val, output) !== null;
+						}, 'Deposit amount must be a positive number')
+						.refine(
+							(val) => !val || countDecimalPlaces(val) <= output,
+							`Must have at most ${output} decimal places`
+						)
+				)
+				.optional()
+		});
+	}
+
+	getFieldMetadata(binding: string): FieldMetadata | null {
+		return this.fields.get(binding);
+	}
+
+	getAllFieldMetadata(): FieldMetadata[] {
+		return this.fields.getAll();
+	}
+
+	setFieldDefinitions(definitions: GuiFieldDefinitionCfg[]): void {
+		this.fields.setFieldDefinitions(definitions);
+	}
+
+	getCalculations(): StrategyCalculations {
+		return this.calculations;
+	}
+
+	getRequiredFields(): string[] {
+		return this.fields
+			.getAll()
+			.filter((field) => field.validation?.required && !field.local)
+			.map((field) => field.binding);
+	}
+}
@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'vitest';
+import { solveGridParameters } from './GridSolver';
+import { GridStrategyConfig } from './GridStrategyConfig';
+
+describe('solveGridParameters', () => {
+	const budget = {
+		totalDeposit: 10000,
+		lowerPrice: 0.02,
+		upperPrice: 0.04,
+		levelCount: 20
+	};
+
+	it('should derive growth and tranche size for geometric spacing', () => {
+		const { solution, error } = solveGridParameters(budget);
+
+		expect(error).toBeNull();
+		expect(solution).not.toBeNull();
+		expect(solution!.trancheSize).toBe(500);
+		expect(solution!.priceStep).toBeNull();
+		expect(solution!.ioRatioGrowth).toBeCloseTo(Math.pow(2, 1 / 19) - 1, 10);
+		expect(solution!.fieldValues).toEqual({
+			'baseline-io-ratio': '0.02',
+			'io-ratio-growth': solution!.fieldValues['io-ratio-growth'],
+			'tranche-size': '500',
+			'level-count': '20',
+			'spacing-mode': 'geometric'
+		});
+	});
+
+	it('should derive a price step for arithmetic spacing', () => {
+		const { solution, error } = solveGridParameters({ ...budget, spacingMode: 'arithmetic' });
+
+		expect(error).toBeNull();
+		expect(solution!.ioRatioGrowth).toBeNull();
+		expect(solution!.priceStep).toBeCloseTo(0.02 / 19, 12);
+		expect(solution!.fieldValues['price-step']).toBeDefined();
+		expect(solution!.fieldValues['io-ratio-growth']).toBeUndefined();
+		expect(solution!.fieldValues['spacing-mode']).toBe('arithmetic');
+	});
+
+	it.each(['geometric', 'arithmetic'] as const)(
+		'should produce a %s grid that spans the requested range and budget',
+		(spacingMode) => {
+			const { solution } = solveGridParameters({ ...budget, spacingMode });
+			const calculations = new GridStrategyConfig().getCalculations();
+			const levels = calculations.calculateGridLevels!(solution!.fieldValues);
+
+			expect(levels).toHaveLength(20);
+			expect(levels[0].price).toBeCloseTo(0.02, 10);
+			expect(levels[19].price).toBeCloseTo(0.04, 8);
+			expect(levels.reduce((sum, level) => sum + level.amount, 0)).toBeCloseTo(10000, 6);
+		}
+	);
+
+	it.each([
+		['linear', 0.5],
+		['geometric', 0.1],
+		['linear', -0.05]
+	] as const)('should spread the budget over %s tranche scaling (%s)', (trancheScaling, growth) => {
+		const { solution } = solveGridParameters({
+			...budget,
+			trancheScaling,
+			trancheGrowth: growth
+		});
+		const levels = new GridStrategyConfig().getCalculations().calculateGridLevels!({
+			...solution!.fieldValues,
+			'tranche-scaling': trancheScaling,
+			'tranche-growth': `${growth}`
+		});
+
+		expect(levels).toHaveLength(20);
+		expect(levels.reduce((sum, level) => sum + level.amount, 0)).toBeCloseTo(10000, 4);
+	});
+
+	it('should reject tranche growth that empties a level', () => {
+		const { solution, error } = solveGridParameters({
+			...budget,
+			trancheScaling: 'linear',
+			trancheGrowth: -0.1
+		});
+
+		expect(solution).toBeNull();
+		expect(error).toBe('Tranche growth leaves no amount to sell at some levels');
+	});
+
+	it('should produce values accepted by the grid validation schema', () => {
+		const { solution } = solveGridParameters(budget);
+		const schema = new GridStrategyConfig().getValidationSchema();
+
+		const result = schema.safeParse({
+			parameters: solution!.fieldValues,
+			deposits: { output: '10000' }
+		});
+
+		expect(result.success).toBe(true);
+	});
+
+	it('should reject a non-positive deposit', () => {
+		const { solution, error } = solveGridParameters({ ...budget, totalDeposit: 0 });
+
+		expect(solution).toBeNull();
+		expect(error).toBe('Total deposit must be a positive number');
+	});
+
+	it('should reject an invalid price range', () => {
+		expect(solveGridParameters({ ...budget, lowerPrice: 0 }).error).toBe(
+			'Lower price must be a positive number'
+		);
+		expect(solveGridParameters({ ...budget, upperPrice: 0.02 }).error).toBe(
+			'Upper price must be greater than the lower price'
+		);
+		expect(solveGridParameters({ ...budget, upperPrice: NaN }).error).toBe(
+			'Upper price must be greater than the lower price'
+		);
+	});
+
+	it('should reject level counts that cannot span a range', () => {
+		expect(solveGridParameters({ ...budget, levelCount: 1 }).error).toContain('Level count');
+		expect(solveGridParameters({ ...budget, levelCount: 2.5 }).error).toContain('Level count');
+		expect(solveGridParameters({ ...budget, levelCount: 1000 }).error).toContain('Level count');
+	});
+});
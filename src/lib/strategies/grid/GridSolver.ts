@@ -0,0 +1,130 @@
+import type { GridSpacingMode, TrancheScaling } from '../base/types';
+import { MAX_GRID_LEVEL_COUNT, scaleTrancheSizes } from './GridStrategyConfig';
+import { RATIO_DECIMALS, toDisplayNumber, toFieldValue } from '$lib/utils/decimal';
+
+/**
+ * Budget and price range a trader wants the grid to cover
+ */
+export interface GridSolverInput {
+	/** Total amount of output token to spread across the grid */
+	totalDeposit: number;
+	/** Price of the first grid level */
+	lowerPrice: number;
+	/** Price of the last grid level */
+	upperPrice: number;
+	/** Number of grid levels between the two prices (inclusive) */
+	levelCount: number;
+	/** Spacing mode used to place the levels */
+	spacingMode?: GridSpacingMode;
+	/** How tranche sizes change between levels, the first level gets the solved tranche size */
+	trancheScaling?: TrancheScaling;
+	/** Tranche growth per level for linear or geometric scaling */
+	trancheGrowth?: number;
+}
+
+/**
+ * Grid parameters derived from a budget and price range
+ */
+export interface GridSolution {
+	baselineIoRatio: number;
+	/** Growth per level (geometric spacing only) */
+	ioRatioGrowth: number | null;
+	/** Price added per level (arithmetic spacing only) */
+	priceStep: number | null;
+	trancheSize: number;
+	levelCount: number;
+	/** Field values ready for `strategyStore.setFieldValues` */
+	fieldValues: Record<string, string>;
+}
+
+/**
+ * Sum of every level's tranche size relative to the first level's
+ */
+function sumTrancheWeights(input: GridSolverInput): number {
+	const one = 10n ** BigInt(RATIO_DECIMALS);
+	const sizes = scaleTrancheSizes(
+		{
+			'tranche-scaling': input.trancheScaling ?? 'constant',
+			'tranche-growth': `${input.trancheGrowth ?? 0}`
+		},
+		one,
+		input.levelCount
+	);
+
+	if (sizes.some((size) => size === 0n)) {
+		return 0;
+	}
+
+	return toDisplayNumber(
+		sizes.reduce((sum, size) => sum + size, 0n),
+		RATIO_DECIMALS
+	);
+}
+
+/**
+ * Solve growth (or price step) and tranche size for a grid that spans a price range
+ * @param input - Total deposit, price range and level count
+ * @returns Derived grid parameters or an error message when the input cannot be solved
+ */
+export function solveGridParameters(input: GridSolverInput): {
+	solution: GridSolution | null;
+	error: string | null;
+} {
+	const { totalDeposit, lowerPrice, upperPrice, levelCount } = input;
+	const spacingMode = input.spacingMode ?? 'geometric';
+
+	if (!isFinite(totalDeposit) || totalDeposit <= 0) {
+		return { solution: null, error: 'Total deposit must be a positive number' };
+	}
+
+	if (!isFinite(lowerPrice) || lowerPrice <= 0) {
+		return { solution: null, error: 'Lower price must be a positive number' };
+	}
+
+	if (!isFinite(upperPrice) || upperPrice <= lowerPrice) {
+		return { solution: null, error: 'Upper price must be greater than the lower price' };
+	}
+
+	if (!Number.isInteger(levelCount) || levelCount < 2 || levelCount > MAX_GRID_LEVEL_COUNT) {
+		return {
+			solution: null,
+			error: `Level count must be a whole number between 2 and ${MAX_GRID_LEVEL_COUNT}`
+		};
+	}
+
+	const trancheWeight = sumTrancheWeights(input);
+	if (trancheWeight <= 0) {
+		return { solution: null, error: 'Tranche growth leaves no amount to sell at some levels' };
+	}
+
+	const trancheSize = totalDeposit / trancheWeight;
+	const fieldValues: Record<string, string> = {
+		'baseline-io-ratio': toFieldValue(lowerPrice),
+		'tranche-size': toFieldValue(trancheSize),
+		'level-count': `${levelCount}`,
+		'spacing-mode': spacingMode
+	};
+
+	let ioRatioGrowth: number | null = null;
+	let priceStep: number | null = null;
+
+	if (spacingMode === 'arithmetic') {
+		priceStep = (upperPrice - lowerPrice) / (levelCount - 1);
+		fieldValues['price-step'] = toFieldValue(priceStep);
+	} else {
+		ioRatioGrowth = Math.pow(upperPrice / lowerPrice, 1 / (levelCount - 1)) - 1;
+		fieldValues['io-ratio-growth'] = toFieldValue(ioRatioGrowth);
+	}
+
+	return {
+		solution: {
+			baselineIoRatio: lowerPrice,
+			ioRatioGrowth,
+			priceStep,
+			trancheSize,
+			levelCount,
+			fieldValues
+		},
+		error: null
+	};
+}
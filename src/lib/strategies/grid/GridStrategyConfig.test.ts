@@ -1,5 +1,18 @@
 import { describe, it, expect, beforeEach } from 'vitest';
-import { GridStrategyConfig } from './GridStrategyConfig';
+import {
+	GridStrategyConfig,
+	DEFAULT_GRID_LEVEL_COUNT,
+	MAX_GRID_LEVEL_COUNT,
+	getGridLevelCount,
+	getGridSpacingMode,
+	deploysLevelOrders,
+	getGridMode,
+	getBuyLevelCount,
+	getGridDeploymentBlocker,
+	getTrancheScaling,
+	scaleTrancheSizes
+} from './GridStrategyConfig';
+import { DynamicSchemaBuilder } from '$lib/validations/DynamicSchemaBuilder';
 
 describe('GridStrategyConfig', () => {
 	let gridStrategy: GridStrategyConfig;
@@ -28,6 +41,7 @@ describe('GridStrategyConfig', () => {
 				helpText: 'Starting price for your grid. This should be near the current market price.',
 				step: '0.0001',
 				min: '0',
+				ratio: true,
 				validation: {
 					required: true,
 					customMessage: 'Must be a positive number representing the starting price'
@@ -48,7 +62,8 @@ describe('GridStrategyConfig', () => {
 				max: '10',
 				validation: {
 					required: true,
-					customMessage: 'Must be between 0 and 10 (e.g., 0.2 for 20% growth)'
+					customMessage: 'Must be between 0 and 10 (e.g., 0.2 for 20% growth)',
+					rules: expect.any(Array)
 				}
 			});
 		});
@@ -64,7 +79,8 @@ describe('GridStrategyConfig', () => {
 				min: '0',
 				validation: {
 					required: true,
-					customMessage: 'Must be a positive number (e.g., 100)'
+					customMessage: 'Must be a positive number (e.g., 100)',
+					rules: expect.any(Array)
 				}
 			});
 		});
@@ -93,13 +109,77 @@ describe('GridStrategyConfig', () => {
 
 		it('should return all field metadata', () => {
 			const allMetadata = gridStrategy.getAllFieldMetadata();
-			expect(allMetadata).toHaveLength(4);
+			expect(allMetadata).toHaveLength(13);
 
 			const bindings = allMetadata.map((m) => m.binding);
 			expect(bindings).toContain('baseline-io-ratio');
 			expect(bindings).toContain('io-ratio-growth');
 			expect(bindings).toContain('tranche-size');
 			expect(bindings).toContain('seconds-per-tranche');
+			expect(bindings).toContain('level-count');
+			expect(bindings).toContain('spacing-mode');
+			expect(bindings).toContain('price-step');
+			expect(bindings).toContain('grid-mode');
+			expect(bindings).toContain('buy-level-count');
+			expect(bindings).toContain('buy-tranche-size');
+			expect(bindings).toContain('tranche-scaling');
+			expect(bindings).toContain('tranche-growth');
+		});
+
+		it('should declare cross-field rules enforced by the dynamic schema', () => {
+			const schema = DynamicSchemaBuilder.buildSchemaForStrategy(gridStrategy, {
+				input: 'usdc',
+				output: 'wflr'
+			});
+			const parameters = {
+				'baseline-io-ratio': '0.5',
+				'io-ratio-growth': '0',
+				'tranche-size': '100'
+			};
+
+			const flatGrid = schema.safeParse({ parameters, deposits: { wflr: '50' } });
+			expect(flatGrid.success).toBe(false);
+			if (!flatGrid.success) {
+				expect(flatGrid.error.issues.map((issue) => issue.path.join('.'))).toEqual([
+					'parameters.io-ratio-growth',
+					'parameters.tranche-size'
+				]);
+			}
+
+			expect(
+				schema.safeParse({
+					parameters: { ...parameters, 'level-count': '1' },
+					deposits: { wflr: '100' }
+				}).success
+			).toBe(true);
+		});
+
+		it('should mark level-count as a local field with a default', () => {
+			const metadata = gridStrategy.getFieldMetadata('level-count');
+			expect(metadata?.local).toBe(true);
+			expect(metadata?.defaultValue).toBe(`${DEFAULT_GRID_LEVEL_COUNT}`);
+			expect(metadata?.validation?.required).toBe(false);
+		});
+
+		it('should merge dotrain field definitions with grid overrides', () => {
+			gridStrategy.setFieldDefinitions([
+				{ binding: 'baseline-io-ratio', name: 'Baseline', description: 'Starting io ratio' },
+				{ binding: 'max-io-ratio', name: 'Max io ratio', default: '2' }
+			]);
+
+			expect(gridStrategy.getFieldMetadata('baseline-io-ratio')).toMatchObject({
+				label: 'Baseline',
+				description: 'Starting io ratio',
+				step: '0.0001',
+				validation: { required: true }
+			});
+			expect(gridStrategy.getFieldMetadata('max-io-ratio')).toMatchObject({
+				label: 'Max io ratio',
+				inputType: 'number',
+				defaultValue: '2',
+				validation: { required: false }
+			});
+			expect(gridStrategy.getAllFieldMetadata()).toHaveLength(14);
 		});
 	});
 
@@ -306,15 +386,36 @@ describe('GridStrategyConfig', () => {
 				const calculations = gridStrategy.getCalculations();
 				const maxReturns = calculations.calculateMaxReturns(validFieldValues);
 
-				// Expected calculation: sum of 10 levels with compound growth
+				// Expected calculation: sum of the default 5 levels with compound growth
 				// Level 0: 0.5 * 100 = 50
 				// Level 1: 0.5 * 1.1 * 100 = 55
 				// Level 2: 0.5 * 1.1^2 * 100 = 60.5
 				// etc.
 				expect(maxReturns).toBeGreaterThan(0);
+				expect(maxReturns).toBeCloseTo(305.26, 1);
+			});
+
+			it('should sum as many levels as level-count', () => {
+				const calculations = gridStrategy.getCalculations();
+				const maxReturns = calculations.calculateMaxReturns({
+					...validFieldValues,
+					'level-count': '10'
+				});
+
 				expect(maxReturns).toBeCloseTo(796.87, 1);
 			});
 
+			it('should match the sum of grid level totals', () => {
+				const calculations = gridStrategy.getCalculations();
+				const fieldValues = { ...validFieldValues, 'level-count': '30' };
+
+				const levels = calculations.calculateGridLevels!(fieldValues);
+				const totalOfLevels = levels.reduce((sum, level) => sum + level.total, 0);
+
+				expect(levels).toHaveLength(30);
+				expect(calculations.calculateMaxReturns(fieldValues)).toBeCloseTo(totalOfLevels, 8);
+			});
+
 			it('should return 0 for missing baseline ratio', () => {
 				const calculations = gridStrategy.getCalculations();
 				const fieldValues = { ...validFieldValues } as { [key: string]: string };
@@ -379,9 +480,15 @@ describe('GridStrategyConfig', () => {
 
 				expect(gridLevels[0]).toEqual({
 					level: 1,
+					side: 'sell',
 					price: 0.5,
 					amount: 100,
-					total: 50
+					total: 50,
+					exact: {
+						price: 5n * 10n ** 17n,
+						amount: 100n * 10n ** 18n,
+						total: 50n * 10n ** 18n
+					}
 				});
 
 				expect(gridLevels[1].level).toBe(2);
@@ -492,6 +599,22 @@ describe('GridStrategyConfig', () => {
 				}
 			});
 
+			it('should generate level-count levels', () => {
+				const calculations = gridStrategy.getCalculations();
+				if (!calculations?.calculateGridLevels) {
+					throw new Error('calculateGridLevels is not defined');
+				}
+
+				const gridLevels = calculations.calculateGridLevels({
+					...validFieldValues,
+					'level-count': '40'
+				});
+
+				expect(gridLevels).toHaveLength(40);
+				expect(gridLevels[39].level).toBe(40);
+				expect(gridLevels[39].price).toBeCloseTo(0.5 * Math.pow(1.1, 39), 8);
+			});
+
 			it('should return empty array for invalid number strings', () => {
 				const calculations = gridStrategy.getCalculations();
 				if (!calculations?.calculateGridLevels) {
@@ -509,6 +632,485 @@ describe('GridStrategyConfig', () => {
 		});
 	});
 
+	describe('Level Count', () => {
+		it('should fall back to the default for empty or invalid values', () => {
+			expect(getGridLevelCount({})).toBe(DEFAULT_GRID_LEVEL_COUNT);
+			expect(getGridLevelCount({ 'level-count': '' })).toBe(DEFAULT_GRID_LEVEL_COUNT);
+			expect(getGridLevelCount({ 'level-count': '0' })).toBe(DEFAULT_GRID_LEVEL_COUNT);
+			expect(getGridLevelCount({ 'level-count': '2.5' })).toBe(DEFAULT_GRID_LEVEL_COUNT);
+			expect(getGridLevelCount({ 'level-count': 'abc' })).toBe(DEFAULT_GRID_LEVEL_COUNT);
+		});
+
+		it('should cap the level count at the maximum', () => {
+			expect(getGridLevelCount({ 'level-count': '20' })).toBe(20);
+			expect(getGridLevelCount({ 'level-count': '1000' })).toBe(MAX_GRID_LEVEL_COUNT);
+		});
+
+		it('should calculate the required deposit from level count and tranche size', () => {
+			const calculations = gridStrategy.getCalculations();
+
+			expect(
+				calculations.calculateRequiredDeposit?.({ 'tranche-size': '100', 'level-count': '20' })
+			).toBe(2000);
+			expect(calculations.calculateRequiredDeposit?.({ 'tranche-size': '100' })).toBe(
+				100 * DEFAULT_GRID_LEVEL_COUNT
+			);
+			expect(calculations.calculateRequiredDeposit?.({})).toBe(0);
+		});
+
+		it('should reject invalid level counts', () => {
+			const schema = gridStrategy.getValidationSchema();
+
+			['0', '2.5', 'abc', `${MAX_GRID_LEVEL_COUNT + 1}`].forEach((value) => {
+				const result = schema.safeParse({
+					parameters: {
+						'baseline-io-ratio': '1',
+						'io-ratio-growth': '0.1',
+						'tranche-size': '100',
+						'level-count': value
+					}
+				});
+				expect(result.success).toBe(false);
+			});
+		});
+
+		it('should reject deposits that do not cover every level', () => {
+			const schema = gridStrategy.getValidationSchema();
+			const result = schema.safeParse({
+				parameters: {
+					'baseline-io-ratio': '1',
+					'io-ratio-growth': '0.1',
+					'tranche-size': '100',
+					'level-count': '20'
+				},
+				deposits: { output: '1500' }
+			});
+
+			expect(result.success).toBe(false);
+			if (!result.success) {
+				expect(result.error.issues[0].path).toEqual(['deposits', 'output']);
+				expect(result.error.issues[0].message).toContain('20 grid levels');
+			}
+		});
+
+		it('should accept deposits that cover every level', () => {
+			const schema = gridStrategy.getValidationSchema();
+			const result = schema.safeParse({
+				parameters: {
+					'baseline-io-ratio': '1',
+					'io-ratio-growth': '0.1',
+					'tranche-size': '100',
+					'level-count': '20'
+				},
+				deposits: { output: '2000', input: '' }
+			});
+
+			expect(result.success).toBe(true);
+		});
+	});
+
+	describe('Spacing Mode', () => {
+		const arithmeticFieldValues = {
+			'baseline-io-ratio': '1',
+			'io-ratio-growth': '0.05',
+			'tranche-size': '100',
+			'spacing-mode': 'arithmetic',
+			'price-step': '0.01'
+		};
+
+		it('should default to geometric spacing', () => {
+			expect(getGridSpacingMode({})).toBe('geometric');
+			expect(getGridSpacingMode({ 'spacing-mode': 'unknown' })).toBe('geometric');
+			expect(getGridSpacingMode({ 'spacing-mode': 'arithmetic' })).toBe('arithmetic');
+		});
+
+		it('should space arithmetic levels by a fixed price step', () => {
+			const calculations = gridStrategy.getCalculations();
+			const gridLevels = calculations.calculateGridLevels!(arithmeticFieldValues);
+
+			expect(gridLevels).toHaveLength(DEFAULT_GRID_LEVEL_COUNT);
+			gridLevels.forEach((level, index) => {
+				expect(level.price).toBeCloseTo(1 + 0.01 * index, 10);
+				expect(level.total).toBeCloseTo(level.price * 100, 10);
+			});
+		});
+
+		it('should sum arithmetic levels for max returns', () => {
+			const calculations = gridStrategy.getCalculations();
+			const maxReturns = calculations.calculateMaxReturns({
+				...arithmeticFieldValues,
+				'level-count': '3'
+			});
+
+			// 100 * (1 + 1.01 + 1.02)
+			expect(maxReturns).toBeCloseTo(303, 8);
+		});
+
+		it('should ignore growth rate in arithmetic mode', () => {
+			const calculations = gridStrategy.getCalculations();
+			const gridLevels = calculations.calculateGridLevels!({
+				...arithmeticFieldValues,
+				'io-ratio-growth': ''
+			});
+
+			expect(gridLevels).toHaveLength(DEFAULT_GRID_LEVEL_COUNT);
+		});
+
+		it('should return no levels without a price step in arithmetic mode', () => {
+			const calculations = gridStrategy.getCalculations();
+			const fieldValues = { ...arithmeticFieldValues, 'price-step': '' };
+
+			expect(calculations.calculateGridLevels!(fieldValues)).toEqual([]);
+			expect(calculations.calculateMaxReturns(fieldValues)).toBe(0);
+		});
+
+		it('should require a price step for arithmetic spacing', () => {
+			const schema = gridStrategy.getValidationSchema();
+			const result = schema.safeParse({
+				parameters: { ...arithmeticFieldValues, 'price-step': '' }
+			});
+
+			expect(result.success).toBe(false);
+			if (!result.success) {
+				expect(result.error.issues[0].path).toEqual(['parameters', 'price-step']);
+			}
+		});
+
+		it('should accept a valid arithmetic configuration', () => {
+			const schema = gridStrategy.getValidationSchema();
+			const result = schema.safeParse({ parameters: arithmeticFieldValues });
+
+			expect(result.success).toBe(true);
+		});
+
+		it('should deploy arithmetic and custom ladder levels as separate orders', () => {
+			expect(deploysLevelOrders(arithmeticFieldValues)).toBe(true);
+			expect(deploysLevelOrders({ 'ladder-mode': 'custom' })).toBe(true);
+			expect(deploysLevelOrders({ ...arithmeticFieldValues, 'spacing-mode': 'geometric' })).toBe(
+				false
+			);
+		});
+
+		it('should reject unknown spacing modes', () => {
+			const schema = gridStrategy.getValidationSchema();
+			const result = schema.safeParse({
+				parameters: { ...arithmeticFieldValues, 'spacing-mode': 'logarithmic' }
+			});
+
+			expect(result.success).toBe(false);
+		});
+	});
+
+	describe('Two-Sided Grid', () => {
+		const twoSidedFieldValues = {
+			'baseline-io-ratio': '1',
+			'io-ratio-growth': '0.25',
+			'tranche-size': '100',
+			'level-count': '2',
+			'grid-mode': 'two-sided',
+			'buy-level-count': '3',
+			'buy-tranche-size': '50'
+		};
+
+		it('should default to a one-sided grid', () => {
+			expect(getGridMode({})).toBe('one-sided');
+			expect(getGridMode({ 'grid-mode': 'unknown' })).toBe('one-sided');
+			expect(getGridMode({ 'grid-mode': 'two-sided' })).toBe('two-sided');
+			expect(getBuyLevelCount({})).toBe(DEFAULT_GRID_LEVEL_COUNT);
+			expect(getBuyLevelCount({ 'buy-level-count': '3' })).toBe(3);
+		});
+
+		it('should block deploying two-sided grids', () => {
+			expect(getGridDeploymentBlocker(twoSidedFieldValues)).toMatch(/not deployed yet/);
+			expect(getGridDeploymentBlocker({ ...twoSidedFieldValues, 'grid-mode': 'one-sided' })).toBe(
+				null
+			);
+			expect(getGridDeploymentBlocker({ ...twoSidedFieldValues, 'ladder-mode': 'custom' })).toBe(
+				null
+			);
+		});
+
+		it('should place buy levels below the baseline and sell levels above it', () => {
+			const gridLevels = gridStrategy.getCalculations().calculateGridLevels!(twoSidedFieldValues);
+
+			expect(gridLevels.map((level) => level.level)).toEqual([-3, -2, -1, 1, 2]);
+			expect(gridLevels.map((level) => level.side)).toEqual(['buy', 'buy', 'buy', 'sell', 'sell']);
+			expect(gridLevels.map((level) => level.price)).toEqual([0.512, 0.64, 0.8, 1, 1.25]);
+		});
+
+		it('should spend the buy tranche size in the input token at each buy level', () => {
+			const [lowestBuy] = gridStrategy.getCalculations().calculateGridLevels!(twoSidedFieldValues, {
+				input: 6,
+				output: 18
+			});
+
+			expect(lowestBuy.exact).toEqual({
+				price: 512n * 10n ** 15n,
+				amount: 97656250000000000000n,
+				total: 50000000n
+			});
+			expect(lowestBuy.amount).toBeCloseTo(97.65625, 10);
+			expect(lowestBuy.total).toBe(50);
+		});
+
+		it('should step buy levels down by the price step in arithmetic mode', () => {
+			const gridLevels = gridStrategy.getCalculations().calculateGridLevels!({
+				...twoSidedFieldValues,
+				'spacing-mode': 'arithmetic',
+				'price-step': '0.4'
+			});
+
+			// 1 - 3 * 0.4 would be negative, so only two buy levels fit
+			expect(gridLevels.filter((level) => level.side === 'buy').map((l) => l.price)).toEqual([
+				0.2, 0.6
+			]);
+		});
+
+		it('should count only sell proceeds in max returns', () => {
+			const calculations = gridStrategy.getCalculations();
+
+			expect(calculations.calculateMaxReturns(twoSidedFieldValues)).toBe(225);
+			expect(calculations.calculateRequiredDeposit!(twoSidedFieldValues)).toBe(200);
+			expect(calculations.calculateRequiredBuyDeposit!(twoSidedFieldValues)).toBe(150);
+			expect(
+				calculations.calculateRequiredBuyDeposit!({
+					...twoSidedFieldValues,
+					'grid-mode': 'one-sided'
+				})
+			).toBe(0);
+		});
+
+		it('should require a buy tranche size for two-sided grids', () => {
+			const result = gridStrategy.getValidationSchema().safeParse({
+				parameters: { ...twoSidedFieldValues, 'buy-tranche-size': '' }
+			});
+
+			expect(result.success).toBe(false);
+			if (!result.success) {
+				expect(result.error.issues[0].path).toEqual(['parameters', 'buy-tranche-size']);
+			}
+		});
+
+		it('should reject arithmetic buy levels that reach zero', () => {
+			const result = gridStrategy.getValidationSchema().safeParse({
+				parameters: { ...twoSidedFieldValues, 'spacing-mode': 'arithmetic', 'price-step': '0.4' }
+			});
+
+			expect(result.success).toBe(false);
+			if (!result.success) {
+				expect(result.error.issues[0].path).toEqual(['parameters', 'buy-level-count']);
+			}
+		});
+
+		it('should check each token deposit against its own side', () => {
+			const schema = gridStrategy.getValidationSchema(
+				{ input: 6, output: 18 },
+				{ input: 'usdc', output: 'wflr' }
+			);
+
+			expect(
+				schema.safeParse({
+					parameters: twoSidedFieldValues,
+					deposits: { usdc: '150', wflr: '200' }
+				}).success
+			).toBe(true);
+
+			const result = schema.safeParse({
+				parameters: twoSidedFieldValues,
+				deposits: { usdc: '149.999999', wflr: '200' }
+			});
+			expect(result.success).toBe(false);
+			if (!result.success) {
+				expect(result.error.issues[0].path).toEqual(['deposits', 'usdc']);
+				expect(result.error.issues[0].message).toContain('3 buy levels (at least 150)');
+			}
+		});
+	});
+
+	describe('Tranche Scaling', () => {
+		const scaledFieldValues = {
+			'baseline-io-ratio': '1',
+			'io-ratio-growth': '0.1',
+			'tranche-size': '100',
+			'level-count': '3',
+			'tranche-scaling': 'linear',
+			'tranche-growth': '0.5'
+		};
+
+		it('should default to constant tranche sizes', () => {
+			expect(getTrancheScaling({})).toBe('constant');
+			expect(getTrancheScaling({ 'tranche-scaling': 'cubic' })).toBe('constant');
+			expect(scaleTrancheSizes({ 'tranche-growth': '0.5' }, 10n, 3)).toEqual([10n, 10n, 10n]);
+		});
+
+		it('should deploy scaled tranches as separate orders', () => {
+			expect(deploysLevelOrders(scaledFieldValues)).toBe(true);
+			expect(deploysLevelOrders({ ...scaledFieldValues, 'tranche-growth': '0' })).toBe(false);
+			expect(deploysLevelOrders({ ...scaledFieldValues, 'tranche-scaling': 'constant' })).toBe(
+				false
+			);
+		});
+
+		it('should scale tranche sizes linearly or geometrically', () => {
+			expect(scaleTrancheSizes(scaledFieldValues, 100n, 3)).toEqual([100n, 150n, 200n]);
+			expect(
+				scaleTrancheSizes({ ...scaledFieldValues, 'tranche-scaling': 'geometric' }, 100n, 3)
+			).toEqual([100n, 150n, 225n]);
+			expect(
+				scaleTrancheSizes({ ...scaledFieldValues, 'tranche-growth': '-0.5' }, 100n, 4)
+			).toEqual([100n, 50n, 0n, 0n]);
+		});
+
+		it('should size each level, its total and max returns from the scaled tranche', () => {
+			const calculations = gridStrategy.getCalculations();
+			const gridLevels = calculations.calculateGridLevels!(scaledFieldValues);
+
+			expect(gridLevels.map((level) => level.amount)).toEqual([100, 150, 200]);
+			expect(gridLevels.map((level) => level.total)).toEqual([100, 165, 242]);
+			expect(calculations.calculateMaxReturns(scaledFieldValues)).toBe(507);
+			expect(calculations.calculateExactMaxReturns!(scaledFieldValues)).toBe('507');
+		});
+
+		it('should require a deposit covering the scaled tranches', () => {
+			const calculations = gridStrategy.getCalculations();
+			expect(calculations.calculateRequiredDeposit!(scaledFieldValues)).toBe(450);
+
+			const schema = gridStrategy.getValidationSchema();
+			expect(
+				schema.safeParse({ parameters: scaledFieldValues, deposits: { output: '449' } }).success
+			).toBe(false);
+			expect(
+				schema.safeParse({ parameters: scaledFieldValues, deposits: { output: '450' } }).success
+			).toBe(true);
+		});
+
+		it('should scale buy tranches away from the baseline', () => {
+			const gridLevels = gridStrategy.getCalculations().calculateGridLevels!({
+				...scaledFieldValues,
+				'grid-mode': 'two-sided',
+				'buy-level-count': '2',
+				'buy-tranche-size': '10'
+			});
+
+			expect(gridLevels.filter((l) => l.side === 'buy').map((l) => [l.level, l.total])).toEqual([
+				[-2, 15],
+				[-1, 10]
+			]);
+		});
+
+		it('should drop levels whose tranche falls to zero', () => {
+			const gridLevels = gridStrategy.getCalculations().calculateGridLevels!({
+				...scaledFieldValues,
+				'tranche-growth': '-0.5'
+			});
+
+			expect(gridLevels.map((level) => level.amount)).toEqual([100, 50]);
+		});
+
+		it('should validate tranche growth', () => {
+			const schema = gridStrategy.getValidationSchema();
+			const parse = (values: Record<string, string>) =>
+				schema.safeParse({ parameters: { ...scaledFieldValues, ...values } });
+
+			expect(parse({ 'tranche-growth': '-0.25' }).success).toBe(true);
+			expect(parse({ 'tranche-growth': '-1' }).success).toBe(false);
+			expect(parse({ 'tranche-growth': 'abc' }).success).toBe(false);
+			expect(parse({ 'tranche-scaling': 'cubic' }).success).toBe(false);
+
+			const result = parse({ 'tranche-growth': '-0.5' });
+			expect(result.success).toBe(false);
+			if (!result.success) {
+				expect(result.error.issues[0].path).toEqual(['parameters', 'tranche-growth']);
+			}
+		});
+	});
+
+	describe('Custom Ladder', () => {
+		const ladderFieldValues = {
+			'baseline-io-ratio': '1',
+			'io-ratio-growth': '0.1',
+			'tranche-size': '100',
+			'ladder-mode': 'custom',
+			'custom-ladder': '0.5,300\n0.25,100\n0.75,20'
+		};
+
+		it('should build sell levels from the ladder, lowest price first', () => {
+			const gridLevels = gridStrategy.getCalculations().calculateGridLevels!(ladderFieldValues);
+
+			expect(gridLevels.map((l) => [l.level, l.side, l.price, l.amount, l.total])).toEqual([
+				[1, 'sell', 0.25, 100, 25],
+				[2, 'sell', 0.5, 300, 150],
+				[3, 'sell', 0.75, 20, 15]
+			]);
+		});
+
+		it('should take max returns and the deposit from the ladder', () => {
+			const calculations = gridStrategy.getCalculations();
+
+			expect(calculations.calculateExactMaxReturns!(ladderFieldValues)).toBe('190');
+			expect(calculations.calculateRequiredDeposit!(ladderFieldValues)).toBe(420);
+			expect(
+				calculations.calculateRequiredBuyDeposit!({
+					...ladderFieldValues,
+					'grid-mode': 'two-sided',
+					'buy-tranche-size': '10'
+				})
+			).toBe(0);
+		});
+
+		it('should ignore the ladder in derived mode', () => {
+			const gridLevels = gridStrategy.getCalculations().calculateGridLevels!({
+				...ladderFieldValues,
+				'ladder-mode': 'derived',
+				'level-count': '2'
+			});
+
+			expect(gridLevels.map((level) => level.price)).toEqual([1, 1.1]);
+		});
+
+		it('should validate the ladder', () => {
+			const schema = gridStrategy.getValidationSchema();
+			const parse = (values: Record<string, string>) =>
+				schema.safeParse({ parameters: { ...ladderFieldValues, ...values } });
+
+			expect(parse({}).success).toBe(true);
+			expect(parse({ 'custom-ladder': '' }).success).toBe(false);
+			expect(parse({ 'custom-ladder': '0.5,abc' }).success).toBe(false);
+			expect(parse({ 'custom-ladder': '0.5,1.5' }).success).toBe(true);
+
+			const result = parse({ 'custom-ladder': '0.5' });
+			expect(result.success).toBe(false);
+			if (!result.success) {
+				expect(result.error.issues[0].path).toEqual(['parameters', 'custom-ladder']);
+				expect(result.error.issues[0].message).toBe('Line 1: expected a price and an amount');
+			}
+		});
+
+		it('should reject amounts finer than the output token', () => {
+			const schema = gridStrategy.getValidationSchema({ input: 18, output: 6 });
+			const result = schema.safeParse({
+				parameters: { ...ladderFieldValues, 'custom-ladder': '0.5,1.0000001' }
+			});
+
+			expect(result.success).toBe(false);
+		});
+
+		it('should require a deposit covering every ladder level', () => {
+			const schema = gridStrategy.getValidationSchema();
+			const result = schema.safeParse({
+				parameters: ladderFieldValues,
+				deposits: { output: '419' }
+			});
+
+			expect(result.success).toBe(false);
+			if (!result.success) {
+				expect(result.error.issues[0].message).toBe(
+					'Deposit must cover all 3 grid levels (at least 420)'
+				);
+			}
+		});
+	});
+
 	describe('Error Handling', () => {
 		it('should handle errors in calculations gracefully', () => {
 			const calculations = gridStrategy.getCalculations();
@@ -639,4 +1241,76 @@ describe('GridStrategyConfig', () => {
 			}
 		});
 	});
+
+	describe('Token Decimals', () => {
+		const decimals = { input: 6, output: 18 };
+		const fieldValues = {
+			'baseline-io-ratio': '0.0225',
+			'io-ratio-growth': '0.01',
+			'tranche-size': '123456789.123456789123456789'
+		};
+
+		it('should compute levels in fixed point with each token decimals', () => {
+			const levels = gridStrategy.getCalculations().calculateGridLevels!(fieldValues, decimals);
+
+			expect(levels[0].exact).toEqual({
+				price: 22500000000000000n,
+				amount: 123456789123456789123456789n,
+				total: 2777777755277n
+			});
+			expect(levels[1].exact?.price).toBe(22725000000000000n);
+			expect(levels[0].total).toBe(2777777.755277);
+		});
+
+		it('should return exact max returns in input token units', () => {
+			const calculations = gridStrategy.getCalculations();
+			const exact = calculations.calculateExactMaxReturns!(fieldValues, decimals);
+
+			expect(exact).toMatch(/^\d+\.\d{1,6}$/);
+			expect(calculations.calculateMaxReturns(fieldValues, decimals)).toBe(Number(exact));
+		});
+
+		it('should keep exact totals where floats round', () => {
+			const exact = gridStrategy.getCalculations().calculateExactMaxReturns!({
+				'baseline-io-ratio': '0.1',
+				'io-ratio-growth': '0.1',
+				'tranche-size': '3',
+				'level-count': '1'
+			});
+
+			expect(0.1 * 3).not.toBe(0.3);
+			expect(exact).toBe('0.3');
+		});
+
+		it('should reject tranche sizes finer than the output token supports', () => {
+			const schema = gridStrategy.getValidationSchema({ input: 18, output: 6 });
+			const result = schema.safeParse({
+				parameters: {
+					'baseline-io-ratio': '1',
+					'io-ratio-growth': '0.1',
+					'tranche-size': '1.1234567'
+				}
+			});
+
+			expect(result.success).toBe(false);
+			if (!result.success) {
+				expect(result.error.issues[0].message).toBe('Must have at most 6 decimal places');
+			}
+		});
+
+		it('should compare deposits against the exact required amount', () => {
+			const schema = gridStrategy.getValidationSchema({ input: 18, output: 18 });
+			const parameters = {
+				'baseline-io-ratio': '1',
+				'io-ratio-growth': '0.1',
+				'tranche-size': '0.100000000000000001',
+				'level-count': '10'
+			};
+
+			expect(schema.safeParse({ parameters, deposits: { output: '1' } }).success).toBe(false);
+			expect(
+				schema.safeParse({ parameters, deposits: { output: '1.00000000000000001' } }).success
+			).toBe(true);
+		});
+	});
 });
@@ -1,25 +1,56 @@
 import { z } from 'zod';
-import type { StrategyConfig, StrategyCalculations, GridLevel } from '../base/types';
-import type { FieldMetadata } from '$lib/types';
+import type {
+	StrategyConfig,
+	StrategyCalculations,
+	GridLevel,
+	GridMode,
+	GridSpacingMode,
+	TokenDecimals,
+	TokenKeys,
+	TrancheScaling
+} from '../base/types';
+import type { FieldMetadata, GuiFieldDefinitionCfg } from '$lib/types';
+import { FieldMetadataSet, type FieldMetadataOverride } from '../base/fieldMetadata';
+import { GRID_STRATEGY_PATH } from '$lib/config/constants';
+import { getLadderMode, parseLadderCsv } from './ladder';
+import {
+	RATIO_DECIMALS,
+	resolveTokenDecimals,
+	toFixedPoint,
+	fromFixedPoint,
+	toDisplayNumber,
+	mulFixedPoint,
+	divFixedPoint,
+	countDecimalPlaces
+} from '$lib/utils/decimal';
 
 /**
- * Grid strategy field metadata
+ * Number of grid levels used when `level-count` is not set
  */
-const GRID_FIELD_METADATA: Record<string, FieldMetadata> = {
+export const DEFAULT_GRID_LEVEL_COUNT = 5;
+
+/**
+ * Upper bound for `level-count`
+ */
+export const MAX_GRID_LEVEL_COUNT = 100;
+
+/**
+ * Grid strategy field overrides, layered over the dotrain field definitions
+ */
+const GRID_FIELD_OVERRIDES: Record<string, FieldMetadataOverride> = {
 	'baseline-io-ratio': {
-		binding: 'baseline-io-ratio',
 		inputType: 'number',
 		placeholder: 'e.g., 0.0005 (price per token)',
 		helpText: 'Starting price for your grid. This should be near the current market price.',
 		step: '0.0001',
 		min: '0',
+		ratio: true,
 		validation: {
 			required: true,
 			customMessage: 'Must be a positive number representing the starting price'
 		}
 	},
 	'io-ratio-growth': {
-		binding: 'io-ratio-growth',
 		inputType: 'number',
 		placeholder: 'e.g., 0.05 (5% growth per level)',
 		helpText:
@@ -29,11 +60,22 @@ const GRID_FIELD_METADATA: Record<string, FieldMetadata> = {
 		max: '10',
 		validation: {
 			required: true,
-			customMessage: 'Must be between 0 and 10 (e.g., 0.2 for 20% growth)'
+			customMessage: 'Must be between 0 and 10 (e.g., 0.2 for 20% growth)',
+			rules: [
+				{
+					operator: 'gt',
+					value: '0',
+					when: [
+						{ field: 'level-count', operator: 'gt', value: '1' },
+						{ field: 'spacing-mode', operator: 'eq', value: 'geometric' },
+						{ field: 'ladder-mode', operator: 'eq', value: 'derived' }
+					],
+					message: 'Growth must be above 0 when the grid has more than one level'
+				}
+			]
 		}
 	},
 	'tranche-size': {
-		binding: 'tranche-size',
 		inputType: 'number',
 		placeholder: 'e.g., 1000 (tokens per level)',
 		helpText: 'Amount of tokens to sell at each grid level.',
@@ -41,11 +83,18 @@ const GRID_FIELD_METADATA: Record<string, FieldMetadata> = {
 		min: '0',
 		validation: {
 			required: true,
-			customMessage: 'Must be a positive number (e.g., 100)'
+			customMessage: 'Must be a positive number (e.g., 100)',
+			rules: [
+				{
+					operator: 'lte',
+					field: 'deposits.output',
+					when: [{ field: 'ladder-mode', operator: 'eq', value: 'derived' }],
+					message: 'The output token deposit must cover at least one tranche'
+				}
+			]
 		}
 	},
 	'seconds-per-tranche': {
-		binding: 'seconds-per-tranche',
 		inputType: 'number',
 		placeholder: 'e.g., 3600 (1 hour)',
 		helpText: 'Time to wait before refilling each grid level. Set to 0 to disable auto-refill.',
@@ -56,19 +105,172 @@ const GRID_FIELD_METADATA: Record<string, FieldMetadata> = {
 			required: false,
 			customMessage: 'Must be between 0 and 31,536,000 seconds (1 year)'
 		}
+	},
+	'level-count': {
+		inputType: 'number',
+		label: 'Number of Grid Levels',
+		placeholder: `e.g., 20 (default ${DEFAULT_GRID_LEVEL_COUNT})`,
+		helpText:
+			'How many tranches are placed above the baseline. Your deposit should cover level count × tranche size.',
+		step: '1',
+		min: '1',
+		max: `${MAX_GRID_LEVEL_COUNT}`,
+		defaultValue: `${DEFAULT_GRID_LEVEL_COUNT}`,
+		local: true,
+		validation: {
+			required: false,
+			customMessage: `Must be a whole number between 1 and ${MAX_GRID_LEVEL_COUNT}`
+		}
+	},
+	'spacing-mode': {
+		inputType: 'select',
+		label: 'Level Spacing',
+		placeholder: 'Select spacing mode',
+		helpText:
+			'Geometric spacing grows each level by the growth rate. Arithmetic spacing adds a fixed price step per level, and each level deploys as its own order.',
+		options: [
+			{ value: 'geometric', label: 'Geometric (percentage growth)' },
+			{ value: 'arithmetic', label: 'Arithmetic (fixed price step)' }
+		],
+		defaultValue: 'geometric',
+		local: true,
+		validation: {
+			required: false,
+			customMessage: 'Must be either geometric or arithmetic'
+		}
+	},
+	'price-step': {
+		inputType: 'number',
+		label: 'Price Step',
+		placeholder: 'e.g., 0.001 (price added per level)',
+		helpText: 'Fixed price increase between grid levels. Only used with arithmetic spacing.',
+		step: '0.0001',
+		min: '0',
+		local: true,
+		ratioStep: true,
+		validation: {
+			required: false,
+			customMessage: 'Must be a positive number when using arithmetic spacing'
+		}
+	},
+	'tranche-scaling': {
+		inputType: 'select',
+		label: 'Tranche Scaling',
+		placeholder: 'Select tranche scaling',
+		helpText:
+			'Constant sells the same amount at every level. Linear adds tranche growth × tranche size per level, geometric multiplies by 1 + tranche growth. Scaled tranches deploy each level as its own order.',
+		options: [
+			{ value: 'constant', label: 'Constant (same size every level)' },
+			{ value: 'linear', label: 'Linear (fixed change per level)' },
+			{ value: 'geometric', label: 'Geometric (percentage change per level)' }
+		],
+		defaultValue: 'constant',
+		local: true,
+		validation: {
+			required: false,
+			customMessage: 'Must be constant, linear or geometric'
+		}
+	},
+	'tranche-growth': {
+		inputType: 'number',
+		label: 'Tranche Growth',
+		placeholder: 'e.g., 0.1 (10% more per level)',
+		helpText:
+			'Change in tranche size per level away from the baseline. Negative values sell less at each level.',
+		step: '0.01',
+		min: '-0.99',
+		max: '10',
+		local: true,
+		validation: {
+			required: false,
+			customMessage: 'Must be greater than -1 and at most 10'
+		}
+	},
+	'ladder-mode': {
+		inputType: 'select',
+		label: 'Level Source',
+		placeholder: 'Select level source',
+		helpText:
+			'Derived levels are worked out from the baseline and growth. A custom ladder lets you enter the price and amount of every level, and each level deploys as its own order.',
+		options: [
+			{ value: 'derived', label: 'Derived (baseline and growth)' },
+			{ value: 'custom', label: 'Custom ladder (edit every level)' }
+		],
+		defaultValue: 'derived',
+		local: true,
+		validation: {
+			required: false,
+			customMessage: 'Must be either derived or custom'
+		}
+	},
+	'grid-mode': {
+		inputType: 'select',
+		label: 'Grid Sides',
+		placeholder: 'Select grid sides',
+		helpText:
+			'One-sided grids only sell above the baseline. Two-sided grids also buy below it, for market making. Two-sided grids can be previewed but not deployed yet.',
+		options: [
+			{ value: 'one-sided', label: 'One-sided (sell levels only)' },
+			{ value: 'two-sided', label: 'Two-sided (buy and sell levels)' }
+		],
+		defaultValue: 'one-sided',
+		local: true,
+		validation: {
+			required: false,
+			customMessage: 'Must be either one-sided or two-sided'
+		}
+	},
+	'buy-level-count': {
+		inputType: 'number',
+		label: 'Number of Buy Levels',
+		placeholder: `e.g., 10 (default ${DEFAULT_GRID_LEVEL_COUNT})`,
+		helpText: 'How many buy levels are placed below the baseline. Only used with a two-sided grid.',
+		step: '1',
+		min: '1',
+		max: `${MAX_GRID_LEVEL_COUNT}`,
+		defaultValue: `${DEFAULT_GRID_LEVEL_COUNT}`,
+		local: true,
+		validation: {
+			required: false,
+			customMessage: `Must be a whole number between 1 and ${MAX_GRID_LEVEL_COUNT}`
+		}
+	},
+	'buy-tranche-size': {
+		inputType: 'number',
+		label: 'Buy Tranche Size',
+		placeholder: 'e.g., 50 (input tokens per buy level)',
+		helpText:
+			'Amount of the input token spent at each buy level. Your input token deposit should cover buy level count × buy tranche size.',
+		step: '0.001',
+		min: '0',
+		local: true,
+		validation: {
+			required: false,
+			customMessage: 'Must be a positive number when using a two-sided grid',
+			rules: [
+				{
+					operator: 'lte',
+					field: 'deposits.input',
+					when: [{ field: 'grid-mode', operator: 'eq', value: 'two-sided' }],
+					message: 'The input token deposit must cover at least one buy tranche'
+				}
+			]
+		}
 	}
 };
 
 /**
  * Grid strategy validation schemas
  */
+const RATIO_ONE = 10n ** BigInt(RATIO_DECIMALS);
+
 const baselineIoRatioSchema = z
 	.string()
 	.min(1, 'Baseline ratio is required')
 	.refine((val) => {
 		if (!val || val.trim() === '') return false;
-		const num = parseFloat(val);
-		return !isNaN(num) && num > 0 && num <= 10000;
+		const ratio = toFixedPoint(val, RATIO_DECIMALS);
+		return ratio !== null && ratio > 0n && ratio <= 10000n * RATIO_ONE;
 	}, 'Must be a positive number (e.g., 0.5)')
 	.transform((val) => val);
 
@@ -77,85 +279,516 @@ const ioRatioGrowthSchema = z
 	.min(1, 'Growth rate is required')
 	.refine((val) => {
 		if (!val || val.trim() === '') return false;
-		const num = parseFloat(val);
-		return !isNaN(num) && num >= 0 && num <= 10;
+		const growth = toFixedPoint(val, RATIO_DECIMALS);
+		return growth !== null && growth <= 10n * RATIO_ONE;
 	}, 'Must be between 0 and 10 (e.g., 0.2 for 20% growth)')
 	.transform((val) => val);
 
-const trancheSizeSchema = z
-	.string()
-	.min(1, 'Tranche size is required')
-	.refine((val) => {
-		if (!val || val.trim() === '') return false;
-		const num = parseFloat(val);
-		return !isNaN(num) && num > 0 && num <= 1000000000;
-	}, 'Must be a positive number (e.g., 100)')
-	.transform((val) => val);
+/**
+ * Tranche size schema, limited to the precision of the output token
+ */
+function createTrancheSizeSchema(decimals: number) {
+	return z
+		.string()
+		.min(1, 'Tranche size is required')
+		.refine((val) => {
+			if (!val || val.trim() === '') return false;
+			const amount = toFixedPoint(val, decimals);
+			return amount !== null && amount > 0n && amount <= 1000000000n * 10n ** BigInt(decimals);
+		}, 'Must be a positive number (e.g., 100)')
+		.refine(
+			(val) => countDecimalPlaces(val) <= decimals,
+			`Must have at most ${decimals} decimal places`
+		)
+		.transform((val) => val);
+}
+
+/**
+ * Deposit amount schema, limited to the precision of the deposited token
+ */
+function createDepositAmountSchema(decimals: number) {
+	return z
+		.string()
+		.optional()
+		.refine((val) => {
+			if (!val || val.trim() === '') return true;
+			return toFixedPoint(val, decimals) !== null;
+		}, 'Deposit amount must be a positive number')
+		.refine(
+			(val) => !val || countDecimalPlaces(val) <= decimals,
+			`Must have at most ${decimals} decimal places`
+		);
+}
 
 const secondsPerTrancheSchema = z
 	.string()
 	.refine((val) => {
 		if (!val || val.trim() === '') return true;
-		const num = parseFloat(val);
+		const num = Number(val);
 		return !isNaN(num) && num >= 0 && num <= 31536000;
 	}, 'Must be between 0 and 31,536,000 seconds (1 year)')
 	.transform((val) => val || '0');
 
+const levelCountSchema = z
+	.string()
+	.refine((val) => {
+		if (!val || val.trim() === '') return true;
+		const num = Number(val);
+		return Number.isInteger(num) && num >= 1 && num <= MAX_GRID_LEVEL_COUNT;
+	}, `Must be a whole number between 1 and ${MAX_GRID_LEVEL_COUNT}`)
+	.transform((val) => val || `${DEFAULT_GRID_LEVEL_COUNT}`);
+
+const spacingModeSchema = z
+	.enum(['geometric', 'arithmetic'], {
+		errorMap: () => ({ message: 'Must be either geometric or arithmetic' })
+	})
+	.or(z.literal(''))
+	.transform((val) => val || 'geometric');
+
+const priceStepSchema = z
+	.string()
+	.refine((val) => {
+		if (!val || val.trim() === '') return true;
+		const step = toFixedPoint(val, RATIO_DECIMALS);
+		return step !== null && step > 0n && step <= 10000n * RATIO_ONE;
+	}, 'Must be a positive number (e.g., 0.001)')
+	.transform((val) => val);
+
+const trancheScalingSchema = z
+	.enum(['constant', 'linear', 'geometric'], {
+		errorMap: () => ({ message: 'Must be constant, linear or geometric' })
+	})
+	.or(z.literal(''))
+	.transform((val) => val || 'constant');
+
+const trancheGrowthSchema = z.string().refine((val) => {
+	if (!val || val.trim() === '') return true;
+	const growth = parseSignedRatio(val);
+	return growth !== null && growth > -RATIO_ONE && growth <= 10n * RATIO_ONE;
+}, 'Must be greater than -1 and at most 10 (e.g., 0.1 for 10% more per level)');
+
+/**
+ * Parse a ratio that may be negative, with `RATIO_DECIMALS` decimals
+ */
+function parseSignedRatio(value: string): bigint | null {
+	const trimmed = (value ?? '').trim();
+	if (!trimmed.startsWith('-')) return toFixedPoint(trimmed, RATIO_DECIMALS);
+
+	const magnitude = toFixedPoint(trimmed.slice(1), RATIO_DECIMALS);
+	return magnitude === null ? null : -magnitude;
+}
+
+/**
+ * Resolve the configured tranche scaling, defaulting to constant tranche sizes
+ */
+export function getTrancheScaling(fieldValues: Record<string, string>): TrancheScaling {
+	const scaling = fieldValues['tranche-scaling'];
+	return scaling === 'linear' || scaling === 'geometric' ? scaling : 'constant';
+}
+
+/**
+ * Tranche size of each level, starting at the baseline and moving away from it
+ *
+ * Linear scaling adds `tranche-growth` × `trancheSize` per level and geometric scaling multiplies
+ * by 1 + `tranche-growth`. Sizes that would fall to zero or below are returned as 0.
+ * @param trancheSize - Size of the first level, in fixed point
+ * @param count - Number of levels
+ */
+export function scaleTrancheSizes(
+	fieldValues: Record<string, string>,
+	trancheSize: bigint,
+	count: number
+): bigint[] {
+	const scaling = getTrancheScaling(fieldValues);
+	const growth = parseSignedRatio(fieldValues['tranche-growth'] || '0') ?? 0n;
+
+	if (scaling === 'constant' || !growth) {
+		return Array.from({ length: count }, () => trancheSize);
+	}
+
+	if (scaling === 'linear') {
+		return Array.from({ length: count }, (_, i) => {
+			const size = trancheSize + (trancheSize * growth * BigInt(i)) / RATIO_ONE;
+			return size > 0n ? size : 0n;
+		});
+	}
+
+	const sizes: bigint[] = [];
+	let size = trancheSize;
+	for (let i = 0; i < count; i++) {
+		sizes.push(size > 0n ? size : 0n);
+		size = (size * (RATIO_ONE + growth)) / RATIO_ONE;
+	}
+	return sizes;
+}
+
+const ladderModeSchema = z
+	.enum(['derived', 'custom'], {
+		errorMap: () => ({ message: 'Must be either derived or custom' })
+	})
+	.or(z.literal(''))
+	.transform((val) => val || 'derived');
+
+const gridModeSchema = z
+	.enum(['one-sided', 'two-sided'], {
+		errorMap: () => ({ message: 'Must be either one-sided or two-sided' })
+	})
+	.or(z.literal(''))
+	.transform((val) => val || 'one-sided');
+
+/**
+ * Buy tranche size schema, limited to the precision of the input token
+ */
+function createBuyTrancheSizeSchema(decimals: number) {
+	return z
+		.string()
+		.refine((val) => {
+			if (!val || val.trim() === '') return true;
+			const amount = toFixedPoint(val, decimals);
+			return amount !== null && amount > 0n && amount <= 1000000000n * 10n ** BigInt(decimals);
+		}, 'Must be a positive number (e.g., 100)')
+		.refine(
+			(val) => !val || countDecimalPlaces(val) <= decimals,
+			`Must have at most ${decimals} decimal places`
+		);
+}
+
+/**
+ * Resolve the configured grid mode, defaulting to sell levels only
+ */
+export function getGridMode(fieldValues: Record<string, string>): GridMode {
+	return fieldValues['grid-mode'] === 'two-sided' ? 'two-sided' : 'one-sided';
+}
+
+/**
+ * Why the grid can't be deployed, or null when it can
+ *
+ * Deploying only places sell orders funded with the output token, so the buy levels of a
+ * two-sided grid and their input token deposit would be silently left out.
+ */
+export function getGridDeploymentBlocker(fieldValues: Record<string, string>): string | null {
+	if (getLadderMode(fieldValues) === 'derived' && getGridMode(fieldValues) === 'two-sided') {
+		return 'Two-sided grids can be previewed but not deployed yet. Switch to a one-sided grid to deploy the sell levels.';
+	}
+	return null;
+}
+
+/**
+ * Resolve the configured number of buy levels, falling back to the default
+ */
+export function getBuyLevelCount(fieldValues: Record<string, string>): number {
+	return getGridLevelCount({ 'level-count': fieldValues['buy-level-count'] });
+}
+
+/**
+ * Resolve the configured spacing mode, defaulting to geometric growth
+ */
+export function getGridSpacingMode(fieldValues: Record<string, string>): GridSpacingMode {
+	return fieldValues['spacing-mode'] === 'arithmetic' ? 'arithmetic' : 'geometric';
+}
+
+/**
+ * Whether every level is deployed as its own order
+ *
+ * A grid order places its levels with geometric spacing and one tranche size, so custom ladders,
+ * arithmetic spacing and scaled tranches deploy each calculated level separately.
+ */
+export function deploysLevelOrders(fieldValues: Record<string, string>): boolean {
+	return (
+		getLadderMode(fieldValues) === 'custom' ||
+		getGridSpacingMode(fieldValues) === 'arithmetic' ||
+		(getTrancheScaling(fieldValues) !== 'constant' &&
+			!!parseSignedRatio(fieldValues['tranche-growth'] || '0'))
+	);
+}
+
+/**
+ * Resolve the configured number of grid levels, falling back to the default
+ */
+export function getGridLevelCount(fieldValues: Record<string, string>): number {
+	const levelCount = Number(fieldValues['level-count']);
+
+	if (!Number.isInteger(levelCount) || levelCount < 1) {
+		return DEFAULT_GRID_LEVEL_COUNT;
+	}
+
+	return Math.min(levelCount, MAX_GRID_LEVEL_COUNT);
+}
+
 /**
  * Grid strategy calculations
+ *
+ * Levels are computed in fixed point: io ratios with `RATIO_DECIMALS`, tranche sizes with the
+ * output token's decimals and totals with the input token's decimals. Float fields on
+ * `GridLevel` are derived from those values for display.
  */
 class GridCalculations implements StrategyCalculations {
-	calculateMaxReturns(fieldValues: Record<string, string>): number {
+	calculateMaxReturns(fieldValues: Record<string, string>, decimals?: TokenDecimals): number {
+		const { input } = resolveTokenDecimals(decimals);
+		return toDisplayNumber(this.sumLevelTotals(fieldValues, decimals), input);
+	}
+
+	calculateExactMaxReturns(fieldValues: Record<string, string>, decimals?: TokenDecimals): string {
+		const { input } = resolveTokenDecimals(decimals);
+		return fromFixedPoint(this.sumLevelTotals(fieldValues, decimals), input);
+	}
+
+	calculateGridLevels(fieldValues: Record<string, string>, decimals?: TokenDecimals): GridLevel[] {
 		try {
-			const baselineRatio = parseFloat(fieldValues['baseline-io-ratio'] || '0');
-			const growth = parseFloat(fieldValues['io-ratio-growth'] || '0');
-			const trancheSize = parseFloat(fieldValues['tranche-size'] || '0');
+			if (getLadderMode(fieldValues) === 'custom') {
+				return this.calculateLadderLevels(fieldValues, decimals);
+			}
+
+			const { input, output } = resolveTokenDecimals(decimals);
+			const baselineRatio = toFixedPoint(fieldValues['baseline-io-ratio'] || '0', RATIO_DECIMALS);
+			const trancheSize = toFixedPoint(fieldValues['tranche-size'] || '0', output);
 
-			if (!baselineRatio || !growth || !trancheSize) {
-				return 0;
+			if (!baselineRatio || !trancheSize) {
+				return [];
 			}
 
-			const levels = 10;
-			let totalReturns = 0;
+			const levelPrices = this.calculateLevelPrices(fieldValues, baselineRatio);
+			const trancheSizes = scaleTrancheSizes(fieldValues, trancheSize, levelPrices.length);
+
+			const sellLevels = levelPrices
+				.map((price, index) => {
+					const amount = trancheSizes[index];
+					const total = mulFixedPoint(price, RATIO_DECIMALS, amount, output, input);
+
+					return {
+						level: index + 1,
+						side: 'sell' as const,
+						price: toDisplayNumber(price, RATIO_DECIMALS),
+						amount: toDisplayNumber(amount, output),
+						total: toDisplayNumber(total, input),
+						exact: { price, amount, total }
+					};
+				})
+				.filter((level) => level.exact.amount > 0n);
 
-			for (let i = 0; i < levels; i++) {
-				const levelPrice = baselineRatio * Math.pow(1 + growth, i);
-				totalReturns += levelPrice * trancheSize;
+			if (getGridMode(fieldValues) === 'one-sided' || sellLevels.length === 0) {
+				return sellLevels;
 			}
 
-			return totalReturns;
+			return [...this.calculateBuyLevels(fieldValues, baselineRatio, decimals), ...sellLevels];
 		} catch (error) {
-			console.error('Error calculating max returns:', error);
-			return 0;
+			console.error('Error calculating grid levels:', error);
+			return [];
 		}
 	}
 
-	calculateGridLevels(fieldValues: Record<string, string>) {
-		try {
-			const baselineRatio = parseFloat(fieldValues['baseline-io-ratio'] || '0');
-			const growth = parseFloat(fieldValues['io-ratio-growth'] || '0');
-			const trancheSize = parseFloat(fieldValues['tranche-size'] || '0');
+	calculateRequiredDeposit(fieldValues: Record<string, string>, decimals?: TokenDecimals): number {
+		const { output } = resolveTokenDecimals(decimals);
+		return toDisplayNumber(this.calculateExactRequiredDeposit(fieldValues, decimals), output);
+	}
 
-			if (!baselineRatio || !growth || !trancheSize) {
-				return [];
+	/**
+	 * Output token needed to fund every level, with the output token's decimals
+	 */
+	calculateExactRequiredDeposit(
+		fieldValues: Record<string, string>,
+		decimals?: TokenDecimals
+	): bigint {
+		if (getLadderMode(fieldValues) === 'custom') {
+			return this.calculateGridLevels(fieldValues, decimals).reduce(
+				(sum, level) => sum + (level.exact?.amount ?? 0n),
+				0n
+			);
+		}
+
+		const { output } = resolveTokenDecimals(decimals);
+		const trancheSize = toFixedPoint(fieldValues['tranche-size'] || '0', output);
+
+		if (!trancheSize) {
+			return 0n;
+		}
+
+		return scaleTrancheSizes(fieldValues, trancheSize, getGridLevelCount(fieldValues)).reduce(
+			(sum, size) => sum + size,
+			0n
+		);
+	}
+
+	calculateRequiredBuyDeposit(
+		fieldValues: Record<string, string>,
+		decimals?: TokenDecimals
+	): number {
+		const { input } = resolveTokenDecimals(decimals);
+		return toDisplayNumber(this.calculateExactRequiredBuyDeposit(fieldValues, decimals), input);
+	}
+
+	/**
+	 * Input token needed to fund every buy level of a two-sided grid, with the input token's
+	 * decimals
+	 */
+	calculateExactRequiredBuyDeposit(
+		fieldValues: Record<string, string>,
+		decimals?: TokenDecimals
+	): bigint {
+		const { input } = resolveTokenDecimals(decimals);
+		const buyTrancheSize = toFixedPoint(fieldValues['buy-tranche-size'] || '0', input);
+
+		if (
+			getLadderMode(fieldValues) === 'custom' ||
+			getGridMode(fieldValues) === 'one-sided' ||
+			!buyTrancheSize
+		) {
+			return 0n;
+		}
+
+		return scaleTrancheSizes(fieldValues, buyTrancheSize, getBuyLevelCount(fieldValues)).reduce(
+			(sum, size) => sum + size,
+			0n
+		);
+	}
+
+	/**
+	 * Sell proceeds only, buy levels spend the input token rather than receive it
+	 */
+	private sumLevelTotals(fieldValues: Record<string, string>, decimals?: TokenDecimals): bigint {
+		return this.calculateGridLevels(fieldValues, decimals)
+			.filter((level) => level.side === 'sell')
+			.reduce((sum, level) => sum + (level.exact?.total ?? 0n), 0n);
+	}
+
+	/**
+	 * Sell levels entered in the `custom-ladder` field, lowest price first. Levels too small to
+	 * represent with the output token's decimals are dropped.
+	 */
+	private calculateLadderLevels(
+		fieldValues: Record<string, string>,
+		decimals?: TokenDecimals
+	): GridLevel[] {
+		const { input, output } = resolveTokenDecimals(decimals);
+		const { entries, error } = parseLadderCsv(fieldValues['custom-ladder'] || '');
+
+		if (error) {
+			return [];
+		}
+
+		return entries
+			.map((entry) => ({
+				price: toFixedPoint(entry.price, RATIO_DECIMALS) ?? 0n,
+				amount: toFixedPoint(entry.amount, output) ?? 0n
+			}))
+			.filter(({ price, amount }) => price > 0n && amount > 0n)
+			.sort((a, b) => (a.price < b.price ? -1 : a.price > b.price ? 1 : 0))
+			.map(({ price, amount }, index) => {
+				const total = mulFixedPoint(price, RATIO_DECIMALS, amount, output, input);
+
+				return {
+					level: index + 1,
+					side: 'sell' as const,
+					price: toDisplayNumber(price, RATIO_DECIMALS),
+					amount: toDisplayNumber(amount, output),
+					total: toDisplayNumber(total, input),
+					exact: { price, amount, total }
+				};
+			});
+	}
+
+	/**
+	 * Buy levels below the baseline, lowest price first. Each spends its scaled `buy-tranche-size`
+	 * of the input token for the output token at its price.
+	 */
+	private calculateBuyLevels(
+		fieldValues: Record<string, string>,
+		baselineRatio: bigint,
+		decimals?: TokenDecimals
+	): GridLevel[] {
+		const { input, output } = resolveTokenDecimals(decimals);
+		const buyTrancheSize = toFixedPoint(fieldValues['buy-tranche-size'] || '0', input);
+
+		if (!buyTrancheSize) {
+			return [];
+		}
+
+		const levelPrices = this.calculateBuyLevelPrices(fieldValues, baselineRatio);
+		const trancheSizes = scaleTrancheSizes(fieldValues, buyTrancheSize, levelPrices.length);
+
+		return levelPrices
+			.map((price, index) => {
+				const total = trancheSizes[index];
+				const amount = divFixedPoint(total, input, price, RATIO_DECIMALS, output);
+
+				return {
+					level: -(index + 1),
+					side: 'buy' as const,
+					price: toDisplayNumber(price, RATIO_DECIMALS),
+					amount: toDisplayNumber(amount, output),
+					total: toDisplayNumber(total, input),
+					exact: { price, amount, total }
+				};
+			})
+			.filter((level) => level.exact.total > 0n)
+			.reverse();
+	}
+
+	/**
+	 * Io ratio of every buy level, stepping down from the baseline. Arithmetic levels that would
+	 * reach zero are dropped.
+	 */
+	private calculateBuyLevelPrices(
+		fieldValues: Record<string, string>,
+		baselineRatio: bigint
+	): bigint[] {
+		const levelCount = getBuyLevelCount(fieldValues);
+		const prices: bigint[] = [];
+
+		if (getGridSpacingMode(fieldValues) === 'arithmetic') {
+			const priceStep = toFixedPoint(fieldValues['price-step'] || '0', RATIO_DECIMALS);
+			if (!priceStep) return [];
+
+			for (let i = 1; i <= levelCount && baselineRatio > priceStep * BigInt(i); i++) {
+				prices.push(baselineRatio - priceStep * BigInt(i));
 			}
+			return prices;
+		}
 
-			const levels: GridLevel[] = [];
-			for (let i = 0; i < 5; i++) {
-				const price = baselineRatio * Math.pow(1 + growth, i);
-				levels.push({
-					level: i + 1,
-					price: price,
-					amount: trancheSize,
-					total: price * trancheSize
-				});
+		const growth = toFixedPoint(fieldValues['io-ratio-growth'] || '0', RATIO_DECIMALS);
+		if (!growth) return [];
+
+		const ratioOne = 10n ** BigInt(RATIO_DECIMALS);
+		let price = baselineRatio;
+		for (let i = 0; i < levelCount; i++) {
+			price = (price * ratioOne) / (ratioOne + growth);
+			if (!price) break;
+			prices.push(price);
+		}
+		return prices;
+	}
+
+	/**
+	 * Io ratio of every level for the configured spacing mode, or none when its spacing
+	 * parameter is unset
+	 */
+	private calculateLevelPrices(
+		fieldValues: Record<string, string>,
+		baselineRatio: bigint
+	): bigint[] {
+		const levelCount = getGridLevelCount(fieldValues);
+		const prices: bigint[] = [];
+
+		if (getGridSpacingMode(fieldValues) === 'arithmetic') {
+			const priceStep = toFixedPoint(fieldValues['price-step'] || '0', RATIO_DECIMALS);
+			if (!priceStep) return [];
+
+			for (let i = 0; i < levelCount; i++) {
+				prices.push(baselineRatio + priceStep * BigInt(i));
 			}
+			return prices;
+		}
 
-			return levels;
-		} catch (error) {
-			console.error('Error calculating grid levels:', error);
-			return [];
+		const growth = toFixedPoint(fieldValues['io-ratio-growth'] || '0', RATIO_DECIMALS);
+		if (!growth) return [];
+
+		const ratioOne = 10n ** BigInt(RATIO_DECIMALS);
+		let price = baselineRatio;
+		for (let i = 0; i < levelCount; i++) {
+			prices.push(price);
+			price = (price * (ratioOne + growth)) / ratioOne;
 		}
+		return prices;
 	}
 }
 
@@ -166,69 +799,219 @@ export class GridStrategyConfig implements StrategyConfig {
 	readonly name = 'Grid';
 	readonly description = 'A strategy that places automated orders at fixed price intervals';
 	readonly version = '1.0.0';
+	readonly sourceUrl = GRID_STRATEGY_PATH;
 
 	private calculations = new GridCalculations();
+	private fields = new FieldMetadataSet(GRID_FIELD_OVERRIDES);
 
-	getValidationSchema() {
-		return z.object({
-			parameters: z.object({
-				'baseline-io-ratio': baselineIoRatioSchema,
-				'io-ratio-growth': ioRatioGrowthSchema,
-				'tranche-size': trancheSizeSchema,
-				'seconds-per-tranche': secondsPerTrancheSchema.optional()
-			}),
-			deposits: z
-				.record(
-					z.string(),
-					z
-						.string()
-						.optional()
-						.refine((val) => {
-							if (!val || val.trim() === '') return true;
-							const num = parseFloat(val);
-							return !isNaN(num) && num >= 0;
-						}, 'Deposit amount must be a positive number')
-				)
-				.optional(),
-			vaultIds: z
-				.object({
-					input: z
-						.record(
-							z.string(),
-							z
-								.string()
-								.optional()
-								.refine((val) => {
-									if (!val || val.trim() === '') return true;
-									const num = parseInt(val);
-									return !isNaN(num) && num >= 0;
-								}, 'Vault ID must be a positive number')
-						)
-						.optional(),
-					output: z
-						.record(
-							z.string(),
-							z
-								.string()
-								.optional()
-								.refine((val) => {
-									if (!val || val.trim() === '') return true;
-									const num = parseInt(val);
-									return !isNaN(num) && num >= 0;
-								}, 'Vault ID must be a positive number')
-						)
-						.optional()
-				})
-				.optional()
-		});
+	/**
+	 * @param tokenKeys - When given, a two-sided grid checks the input token's deposit against
+	 * its buy levels
+	 */
+	getValidationSchema(decimals?: TokenDecimals, tokenKeys?: TokenKeys) {
+		const tokenDecimals = resolveTokenDecimals(decimals);
+		const depositsSchema = tokenKeys
+			? z
+					.object({ [tokenKeys.input]: createDepositAmountSchema(tokenDecimals.input) })
+					.catchall(createDepositAmountSchema(tokenDecimals.output))
+			: z.record(z.string(), createDepositAmountSchema(tokenDecimals.output));
+
+		return z
+			.object({
+				parameters: z.object({
+					'baseline-io-ratio': baselineIoRatioSchema,
+					'io-ratio-growth': ioRatioGrowthSchema,
+					'tranche-size': createTrancheSizeSchema(tokenDecimals.output),
+					'seconds-per-tranche': secondsPerTrancheSchema.optional(),
+					'level-count': levelCountSchema.optional(),
+					'spacing-mode': spacingModeSchema.optional(),
+					'price-step': priceStepSchema.optional(),
+					'tranche-scaling': trancheScalingSchema.optional(),
+					'tranche-growth': trancheGrowthSchema.optional(),
+					'ladder-mode': ladderModeSchema.optional(),
+					'custom-ladder': z.string().optional(),
+					'grid-mode': gridModeSchema.optional(),
+					'buy-level-count': levelCountSchema.optional(),
+					'buy-tranche-size': createBuyTrancheSizeSchema(tokenDecimals.input).optional()
+				}),
+				deposits: depositsSchema.optional(),
+				vaultIds: z
+					.object({
+						input: z
+							.record(
+								z.string(),
+								z
+									.string()
+									.optional()
+									.refine((val) => {
+										if (!val || val.trim() === '') return true;
+										const num = parseInt(val);
+										return !isNaN(num) && num >= 0;
+									}, 'Vault ID must be a positive number')
+							)
+							.optional(),
+						output: z
+							.record(
+								z.string(),
+								z
+									.string()
+									.optional()
+									.refine((val) => {
+										if (!val || val.trim() === '') return true;
+										const num = parseInt(val);
+										return !isNaN(num) && num >= 0;
+									}, 'Vault ID must be a positive number')
+							)
+							.optional()
+					})
+					.optional()
+			})
+			.superRefine((values, ctx) => {
+				const parameters = values.parameters as Record<string, string>;
+				const isCustomLadder = getLadderMode(parameters) === 'custom';
+
+				if (isCustomLadder) {
+					this.addLadderIssues(parameters, tokenDecimals.output, ctx);
+				}
+
+				if (
+					!isCustomLadder &&
+					getGridSpacingMode(parameters) === 'arithmetic' &&
+					!toFixedPoint(parameters['price-step'] || '0', RATIO_DECIMALS)
+				) {
+					ctx.addIssue({
+						code: z.ZodIssueCode.custom,
+						path: ['parameters', 'price-step'],
+						message: 'Price step is required for arithmetic spacing'
+					});
+				}
+
+				const trancheGrowth = parseSignedRatio(parameters['tranche-growth'] || '0') ?? 0n;
+				const scaledLevelCount = Math.max(
+					getGridLevelCount(parameters),
+					getGridMode(parameters) === 'two-sided' ? getBuyLevelCount(parameters) : 0
+				);
+				if (
+					!isCustomLadder &&
+					getTrancheScaling(parameters) === 'linear' &&
+					RATIO_ONE + trancheGrowth * BigInt(scaledLevelCount - 1) <= 0n
+				) {
+					ctx.addIssue({
+						code: z.ZodIssueCode.custom,
+						path: ['parameters', 'tranche-growth'],
+						message: `Tranche size would reach 0 before level ${scaledLevelCount}, use a smaller decrease or fewer levels`
+					});
+				}
+
+				const isTwoSided = !isCustomLadder && getGridMode(parameters) === 'two-sided';
+
+				if (
+					isTwoSided &&
+					!toFixedPoint(parameters['buy-tranche-size'] || '0', tokenDecimals.input)
+				) {
+					ctx.addIssue({
+						code: z.ZodIssueCode.custom,
+						path: ['parameters', 'buy-tranche-size'],
+						message: 'Buy tranche size is required for a two-sided grid'
+					});
+				}
+
+				const baselineRatio = toFixedPoint(parameters['baseline-io-ratio'] || '0', RATIO_DECIMALS);
+				const priceStep = toFixedPoint(parameters['price-step'] || '0', RATIO_DECIMALS);
+				if (
+					isTwoSided &&
+					getGridSpacingMode(parameters) === 'arithmetic' &&
+					baselineRatio &&
+					priceStep &&
+					priceStep * BigInt(getBuyLevelCount(parameters)) >= baselineRatio
+				) {
+					ctx.addIssue({
+						code: z.ZodIssueCode.custom,
+						path: ['parameters', 'buy-level-count'],
+						message:
+							'Lowest buy level must stay above 0, use fewer buy levels or a smaller price step'
+					});
+				}
+
+				const requiredDeposit = this.calculations.calculateExactRequiredDeposit(
+					parameters,
+					tokenDecimals
+				);
+				const requiredBuyDeposit = this.calculations.calculateExactRequiredBuyDeposit(
+					parameters,
+					tokenDecimals
+				);
+				if (!values.deposits) return;
+
+				const levelCount = isCustomLadder
+					? this.calculations.calculateGridLevels(parameters, tokenDecimals).length
+					: getGridLevelCount(parameters);
+
+				Object.entries(values.deposits).forEach(([token, amount]) => {
+					const isBuyDeposit = isTwoSided && token === tokenKeys?.input;
+					const decimals = isBuyDeposit ? tokenDecimals.input : tokenDecimals.output;
+					const required = isBuyDeposit ? requiredBuyDeposit : requiredDeposit;
+					const depositAmount = toFixedPoint(amount || '0', decimals);
+					if (!required || !depositAmount) return;
+
+					if (depositAmount < required) {
+						ctx.addIssue({
+							code: z.ZodIssueCode.custom,
+							path: ['deposits', token],
+							message: isBuyDeposit
+								? `Deposit must cover all ${getBuyLevelCount(parameters)} buy levels (at least ${fromFixedPoint(required, decimals)})`
+								: `Deposit must cover all ${levelCount} grid levels (at least ${fromFixedPoint(required, decimals)})`
+						});
+					}
+				});
+			});
+	}
+
+	/**
+	 * Report a custom ladder that cannot be parsed, is empty, has too many levels or has amounts
+	 * finer than the output token allows
+	 */
+	private addLadderIssues(
+		parameters: Record<string, string>,
+		outputDecimals: number,
+		ctx: z.RefinementCtx
+	) {
+		const path = ['parameters', 'custom-ladder'];
+		const { entries, error } = parseLadderCsv(parameters['custom-ladder'] || '');
+
+		if (error) {
+			ctx.addIssue({ code: z.ZodIssueCode.custom, path, message: error });
+		} else if (entries.length === 0) {
+			ctx.addIssue({
+				code: z.ZodIssueCode.custom,
+				path,
+				message: 'Add at least one level to the ladder'
+			});
+		} else if (entries.length > MAX_GRID_LEVEL_COUNT) {
+			ctx.addIssue({
+				code: z.ZodIssueCode.custom,
+				path,
+				message: `A ladder can have at most ${MAX_GRID_LEVEL_COUNT} levels`
+			});
+		} else if (entries.some((entry) => countDecimalPlaces(entry.amount) > outputDecimals)) {
+			ctx.addIssue({
+				code: z.ZodIssueCode.custom,
+				path,
+				message: `Amounts must have at most ${outputDecimals} decimal places`
+			});
+		}
 	}
 
 	getFieldMetadata(binding: string): FieldMetadata | null {
-		return GRID_FIELD_METADATA[binding] || null;
+		return this.fields.get(binding);
 	}
 
 	getAllFieldMetadata(): FieldMetadata[] {
-		return Object.values(GRID_FIELD_METADATA);
+		return this.fields.getAll();
+	}
+
+	setFieldDefinitions(definitions: GuiFieldDefinitionCfg[]): void {
+		this.fields.setFieldDefinitions(definitions);
 	}
 
 	getCalculations(): StrategyCalculations {
@@ -0,0 +1,153 @@
+import { describe, it, expect } from 'vitest';
+import {
+	getLadderMode,
+	parseLadderCsv,
+	serializeLadder,
+	sortLadder,
+	invertLadderPrices,
+	ladderToFieldValues,
+	gridLevelsToLadder
+} from './ladder';
+
+describe('Custom ladder', () => {
+	describe('getLadderMode', () => {
+		it('should default to derived levels', () => {
+			expect(getLadderMode({})).toBe('derived');
+			expect(getLadderMode({ 'ladder-mode': 'other' })).toBe('derived');
+			expect(getLadderMode({ 'ladder-mode': 'custom' })).toBe('custom');
+		});
+	});
+
+	describe('parseLadderCsv', () => {
+		it('should parse price and amount rows', () => {
+			expect(parseLadderCsv('0.5,100\n0.6, 200\n')).toEqual({
+				entries: [
+					{ price: '0.5', amount: '100' },
+					{ price: '0.6', amount: '200' }
+				],
+				error: null
+			});
+		});
+
+		it('should accept spreadsheet pastes with a header row', () => {
+			const { entries, error } = parseLadderCsv('Price\tAmount\r\n0.5\t100\r\n\r\n0.6;200');
+
+			expect(error).toBeNull();
+			expect(entries).toEqual([
+				{ price: '0.5', amount: '100' },
+				{ price: '0.6', amount: '200' }
+			]);
+		});
+
+		it('should report the line of the first invalid row', () => {
+			expect(parseLadderCsv('0.5,100\n0.6').error).toBe('Line 2: expected a price and an amount');
+			expect(parseLadderCsv('0.5,100\n-1,100').error).toBe(
+				'Line 2: price must be a positive number'
+			);
+			expect(parseLadderCsv('0.5,0').error).toBe('Line 1: amount must be a positive number');
+			expect(parseLadderCsv('price,amount\nprice,amount').error).toBe(
+				'Line 2: price must be a positive number'
+			);
+		});
+
+		it('should return no entries for empty text', () => {
+			expect(parseLadderCsv('')).toEqual({ entries: [], error: null });
+		});
+	});
+
+	describe('serializeLadder', () => {
+		it('should write one row per level and drop empty rows', () => {
+			expect(
+				serializeLadder([
+					{ price: ' 0.5', amount: '100 ' },
+					{ price: '', amount: '' },
+					{ price: '0.6', amount: '' }
+				])
+			).toBe('0.5,100\n0.6,');
+		});
+	});
+
+	describe('sortLadder', () => {
+		it('should order levels from the lowest price up', () => {
+			expect(
+				sortLadder([
+					{ price: '1.5', amount: '1' },
+					{ price: '0.25', amount: '2' },
+					{ price: '1', amount: '3' }
+				]).map((entry) => entry.price)
+			).toEqual(['0.25', '1', '1.5']);
+		});
+	});
+
+	describe('invertLadderPrices', () => {
+		it('should invert prices and keep amounts', () => {
+			expect(
+				invertLadderPrices([
+					{ price: '0.025', amount: '100' },
+					{ price: '4', amount: '50' }
+				])
+			).toEqual([
+				{ price: '40', amount: '100' },
+				{ price: '0.25', amount: '50' }
+			]);
+		});
+
+		it('should keep prices that cannot be inverted as typed', () => {
+			expect(
+				invertLadderPrices([
+					{ price: '', amount: '10' },
+					{ price: '0', amount: '10' },
+					{ price: 'abc', amount: '10' }
+				]).map((entry) => entry.price)
+			).toEqual(['', '0', 'abc']);
+		});
+	});
+
+	describe('ladderToFieldValues', () => {
+		it('should derive the grid fields from the lowest levels', () => {
+			expect(
+				ladderToFieldValues([
+					{ price: '1.2', amount: '50' },
+					{ price: '1', amount: '10' }
+				])
+			).toEqual({
+				'ladder-mode': 'custom',
+				'custom-ladder': '1.2,50\n1,10',
+				'baseline-io-ratio': '1',
+				'tranche-size': '10',
+				'io-ratio-growth': '0.2'
+			});
+		});
+
+		it('should only store the ladder while it is invalid', () => {
+			expect(ladderToFieldValues([{ price: '1', amount: '' }])).toEqual({
+				'ladder-mode': 'custom',
+				'custom-ladder': '1,'
+			});
+		});
+	});
+
+	describe('gridLevelsToLadder', () => {
+		it('should keep the exact price and amount of sell levels', () => {
+			const sell = {
+				level: 1,
+				side: 'sell' as const,
+				price: 1.01,
+				amount: 12.5,
+				total: 12.625,
+				exact: { price: 1010000000000000000n, amount: 12500000n, total: 12625000n }
+			};
+			const buy = { ...sell, level: -1, side: 'buy' as const };
+
+			expect(gridLevelsToLadder([buy, sell], { input: 6, output: 6 })).toEqual([
+				{ price: '1.01', amount: '12.5' }
+			]);
+		});
+
+		it('should skip levels without fixed point values', () => {
+			expect(
+				gridLevelsToLadder([{ level: 1, side: 'sell', price: 1, amount: 1, total: 1 }])
+			).toEqual([]);
+		});
+	});
+});
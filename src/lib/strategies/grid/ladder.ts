@@ -0,0 +1,148 @@
+import type { GridLadderMode, GridLevel, LadderEntry, TokenDecimals } from '../base/types';
+import {
+	RATIO_DECIMALS,
+	resolveTokenDecimals,
+	toFixedPoint,
+	fromFixedPoint,
+	divFixedPoint,
+	invertRatio
+} from '$lib/utils/decimal';
+
+/**
+ * Cell separators accepted in ladder CSV, so rows copied from a spreadsheet paste as is
+ */
+const CELL_SEPARATOR = /[,;\t]/;
+
+/**
+ * Resolve the configured ladder mode, defaulting to levels derived from the baseline
+ */
+export function getLadderMode(fieldValues: Record<string, string>): GridLadderMode {
+	return fieldValues['ladder-mode'] === 'custom' ? 'custom' : 'derived';
+}
+
+function isPositiveDecimal(value: string): boolean {
+	const fixed = toFixedPoint(value, RATIO_DECIMALS);
+	return fixed !== null && fixed > 0n;
+}
+
+/**
+ * Parse a custom ladder from CSV with one `price,amount` row per line
+ *
+ * Blank lines are skipped, and so is a header row when its cells are not numbers.
+ * @returns Entries in the order given, or the first problem found with its line number
+ */
+export function parseLadderCsv(text: string): { entries: LadderEntry[]; error: string | null } {
+	const entries: LadderEntry[] = [];
+	const lines = (text ?? '').split(/\r?\n/);
+	let isFirstRow = true;
+
+	for (let i = 0; i < lines.length; i++) {
+		const line = lines[i].trim();
+		if (!line) continue;
+
+		const cells = line.split(CELL_SEPARATOR).map((cell) => cell.trim());
+		const isHeader =
+			isFirstRow && cells.every((cell) => toFixedPoint(cell, RATIO_DECIMALS) === null);
+		isFirstRow = false;
+		if (isHeader) continue;
+
+		if (cells.length < 2) {
+			return { entries: [], error: `Line ${i + 1}: expected a price and an amount` };
+		}
+
+		const [price, amount] = cells;
+		if (!isPositiveDecimal(price)) {
+			return { entries: [], error: `Line ${i + 1}: price must be a positive number` };
+		}
+		if (!isPositiveDecimal(amount)) {
+			return { entries: [], error: `Line ${i + 1}: amount must be a positive number` };
+		}
+
+		entries.push({ price, amount });
+	}
+
+	return { entries, error: null };
+}
+
+/**
+ * Serialize ladder entries to the CSV stored in the `custom-ladder` field, dropping empty rows
+ */
+export function serializeLadder(entries: LadderEntry[]): string {
+	return entries
+		.filter((entry) => entry.price.trim() !== '' || entry.amount.trim() !== '')
+		.map((entry) => `${entry.price.trim()},${entry.amount.trim()}`)
+		.join('\n');
+}
+
+/**
+ * Ladder entries ordered from the lowest price up
+ */
+export function sortLadder(entries: LadderEntry[]): LadderEntry[] {
+	return [...entries].sort((a, b) => {
+		const aPrice = toFixedPoint(a.price, RATIO_DECIMALS) ?? 0n;
+		const bPrice = toFixedPoint(b.price, RATIO_DECIMALS) ?? 0n;
+		return aPrice < bPrice ? -1 : aPrice > bPrice ? 1 : 0;
+	});
+}
+
+/**
+ * Ladder entries with every price quoted the other way round, for the inverted price display
+ *
+ * Prices that are blank or not positive numbers are kept as typed so they can still be fixed.
+ */
+export function invertLadderPrices(entries: LadderEntry[]): LadderEntry[] {
+	return entries.map((entry) => ({
+		...entry,
+		price: invertRatio(entry.price.trim()) ?? entry.price
+	}));
+}
+
+/**
+ * Field values for a custom ladder
+ *
+ * The derived grid fields follow the ladder so required field checks pass: the baseline and
+ * tranche size come from the lowest level and the growth from the step to the next price up.
+ * A single level ladder leaves the growth as it is.
+ */
+export function ladderToFieldValues(entries: LadderEntry[]): Record<string, string> {
+	const values: Record<string, string> = {
+		'ladder-mode': 'custom',
+		'custom-ladder': serializeLadder(entries)
+	};
+
+	const sorted = sortLadder(parseLadderCsv(values['custom-ladder']).entries);
+	if (sorted.length === 0) return values;
+
+	values['baseline-io-ratio'] = sorted[0].price;
+	values['tranche-size'] = sorted[0].amount;
+
+	const lowest = toFixedPoint(sorted[0].price, RATIO_DECIMALS) ?? 0n;
+	const next = sorted
+		.map((entry) => toFixedPoint(entry.price, RATIO_DECIMALS) ?? 0n)
+		.find((price) => price > lowest);
+	if (lowest && next) {
+		const ratio = divFixedPoint(next, RATIO_DECIMALS, lowest, RATIO_DECIMALS, RATIO_DECIMALS);
+		values['io-ratio-growth'] = fromFixedPoint(
+			ratio - 10n ** BigInt(RATIO_DECIMALS),
+			RATIO_DECIMALS
+		);
+	}
+
+	return values;
+}
+
+/**
+ * Ladder entries for calculated sell levels, keeping their exact prices and amounts
+ *
+ * Levels without fixed point values are skipped.
+ */
+export function gridLevelsToLadder(levels: GridLevel[], decimals?: TokenDecimals): LadderEntry[] {
+	const { output } = resolveTokenDecimals(decimals);
+
+	return levels
+		.filter((level) => level.side === 'sell' && level.exact)
+		.map((level) => ({
+			price: fromFixedPoint(level.exact!.price, RATIO_DECIMALS),
+			amount: fromFixedPoint(level.exact!.amount, output)
+		}));
+}
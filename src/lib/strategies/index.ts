@@ -1,4 +1,9 @@
 export * from './base/types';
+export * from './base/fieldMetadata';
 export * from './grid/GridStrategyConfig';
+export * from './grid/GridSolver';
+export * from './grid/ladder';
+export * from './dca/DcaStrategyConfig';
+export * from './dotrain/DotrainStrategyConfig';
 export * from './StrategyRegistry';
 export { strategyRegistry } from './StrategyRegistry';
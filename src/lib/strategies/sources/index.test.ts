@@ -0,0 +1,21 @@
+import { describe, it, expect } from 'vitest';
+import { getPinnedSource } from './index';
+import { DCA_STRATEGY_PATH, GRID_STRATEGY_PATH } from '$lib/config/constants';
+
+describe('Strategy Sources', () => {
+	it('should list the built-in strategy sources', () => {
+		expect(getPinnedSource(GRID_STRATEGY_PATH)).not.toBeNull();
+		expect(getPinnedSource(DCA_STRATEGY_PATH)).not.toBeNull();
+	});
+
+	it('should only pin sources that are bundled', () => {
+		[GRID_STRATEGY_PATH, DCA_STRATEGY_PATH].forEach((url) => {
+			const pin = getPinnedSource(url);
+			expect(pin?.sha256 === null).toBe(pin?.bundled === null);
+		});
+	});
+
+	it('should not know other sources', () => {
+		expect(getPinnedSource('https://example.com/other.rain')).toBeNull();
+	});
+});
@@ -0,0 +1,34 @@
+import manifest from './manifest.json';
+
+/**
+ * A dotrain source the app ships with, pinned to a content hash
+ */
+export interface PinnedStrategySource {
+	/** Hex SHA-256 of the source, null until the source has been vendored */
+	sha256: string | null;
+	/** Bundled copy of the source, when vendored into this directory */
+	bundled: string | null;
+}
+
+/**
+ * Bundled `.rain` files, keyed by file name
+ */
+const bundledFiles = Object.fromEntries(
+	Object.entries(
+		import.meta.glob<string>('./*.rain', { query: '?raw', import: 'default', eager: true })
+	).map(([path, content]) => [path.replace('./', ''), content])
+);
+
+const pins: Record<string, { file: string; sha256: string | null }> = manifest;
+
+/**
+ * Pinned hash and bundled copy of a known source
+ * @param url - Source URL, as used for `StrategyConfig.sourceUrl`
+ * @returns The pin, or null for sources the app doesn't know
+ */
+export function getPinnedSource(url: string): PinnedStrategySource | null {
+	const pin = pins[url];
+	if (!pin) return null;
+
+	return { sha256: pin.sha256, bundled: bundledFiles[pin.file] ?? null };
+}
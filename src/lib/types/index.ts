@@ -8,7 +8,8 @@ import type {
 	OrderIOCfg,
 	TokenInfo
 } from '@rainlanguage/orderbook';
-import type { StrategyType } from '$lib/strategies';
+import type { StrategyType, TokenDecimals } from '$lib/strategies';
+import type { OrderGuiSession } from '$lib/services/gui';
 
 /**
  * Token information interface for the application
@@ -24,6 +25,37 @@ export interface Token {
 	decimals: number;
 }
 
+/**
+ * Comparison used by field validation rules. `eq` compares text, the others compare numbers.
+ */
+export type FieldComparison = 'eq' | 'gt' | 'gte' | 'lt' | 'lte';
+
+/**
+ * Condition on the value of another field
+ */
+export interface FieldCondition {
+	/** Binding of the field to check, or `deposits.input` / `deposits.output` */
+	field: string;
+	operator: FieldComparison;
+	value: string;
+}
+
+/**
+ * Check of a field's value against another field or a fixed value
+ *
+ * Rules are skipped while either value is empty, so they never make an optional field required.
+ */
+export interface FieldRule {
+	operator: FieldComparison;
+	/** Binding of the field to compare with, or `deposits.input` / `deposits.output` */
+	field?: string;
+	/** Fixed value to compare with when no field is given */
+	value?: string;
+	/** Conditions that must all hold for the rule to apply */
+	when?: FieldCondition[];
+	message: string;
+}
+
 /**
  * Field metadata for dynamic rendering
  */
@@ -35,9 +67,27 @@ export interface FieldMetadata {
 	step?: string;
 	min?: string;
 	max?: string;
+	/** Choices for select inputs */
+	options?: Array<{ value: string; label: string }>;
+	/** Display name for fields that have no dotrain field definition */
+	label?: string;
+	/** Field description from the dotrain field definition */
+	description?: string;
+	/** Suggested values from the dotrain field definition */
+	presets?: Array<{ value: string; label: string }>;
+	/** Value used when the field is left empty */
+	defaultValue?: string;
+	/** Field only feeds frontend calculations and is never saved to the dotrain GUI */
+	local?: boolean;
+	/** Field holds an io ratio (input token per output token) and follows the inverted price display */
+	ratio?: boolean;
+	/** Field holds a difference between io ratios, which has no inverted equivalent, so it is hidden while prices are inverted */
+	ratioStep?: boolean;
 	validation?: {
 		required: boolean;
 		customMessage?: string;
+		/** Cross-field checks, enforced by `DynamicSchemaBuilder.buildSchemaForStrategy` */
+		rules?: FieldRule[];
 	};
 }
 
@@ -86,6 +136,59 @@ export interface ValidationState {
 	errors: Record<string, string[]>;
 	/** Whether form is currently being validated */
 	isValidating: boolean;
+	/** Errors from on-chain checks (balance, token contract), which also block deployment */
+	onchainErrors: Record<string, string[]>;
+	/** Non-blocking messages from on-chain checks, such as a missing allowance */
+	warnings: Record<string, string[]>;
+}
+
+/**
+ * Kind of failure, deciding how an error is explained and recovered from
+ */
+export type AppErrorCategory =
+	| 'wallet-rejected'
+	| 'wrong-chain'
+	| 'wasm'
+	| 'rpc'
+	| 'validation'
+	| 'unknown';
+
+/**
+ * Stable identifier of an error, for tests and bug reports
+ */
+export type AppErrorCode =
+	| 'WALLET_REJECTED'
+	| 'WALLET_UNAVAILABLE'
+	| 'WRONG_CHAIN'
+	| 'GUI_ERROR'
+	| 'GUI_BUSY'
+	| 'RPC_TIMEOUT'
+	| 'RPC_ERROR'
+	| 'VALIDATION_FAILED'
+	| 'UNKNOWN';
+
+/**
+ * Step the user can take to recover from an error
+ */
+export type RecoveryAction =
+	| 'retry'
+	| 'reconnect-wallet'
+	| 'switch-network'
+	| 'review-form'
+	| 'reload';
+
+/**
+ * Error as shown to the user
+ */
+export interface AppError {
+	code: AppErrorCode;
+	category: AppErrorCategory;
+	/** What went wrong, in terms the user can act on */
+	message: string;
+	/** Original error message, shown on request */
+	details: string | null;
+	/** Suggested recovery actions, most useful first */
+	recovery: RecoveryAction[];
 }
 
 /**
@@ -96,12 +199,28 @@ export interface DeploymentState {
 	isDeploying: boolean;
 	/** Current deployment step */
 	currentStep: 'idle' | 'approving' | 'deploying' | 'success' | 'error';
-	/** Transaction hash if successful */
+	/** Transaction hash if successful, the last one when levels are deployed separately */
 	transactionHash?: string;
+	/** Hash of every deployment transaction, in order */
+	transactionHashes?: string[];
 	/** Explorer URL for viewing the strategy */
 	explorerUrl?: string;
-	/** Error message if deployment failed */
-	error?: string;
+	/** Why the deployment failed */
+	error?: AppError;
+	/** Levels already deployed by an interrupted separate level deployment */
+	levelProgress?: LevelDeploymentProgress;
+}
+
+/**
+ * Levels of a separately deployed grid that are already on-chain
+ */
+export interface LevelDeploymentProgress {
+	/** Wallet, deployment and levels being deployed, a different key starts over */
+	key: string;
+	/** Number of levels being deployed */
+	levelCount: number;
+	/** Hash of each deployed level, in ladder order */
+	transactionHashes: string[];
 }
 
 /**
@@ -121,7 +240,7 @@ export interface WalletState {
 	isConnecting: boolean;
 
 	/** Connection or operation error */
-	error?: string;
+	error?: AppError;
 
 	/** Account balance information */
 	balance?: {
@@ -160,12 +279,39 @@ export interface StrategyState {
 	fieldValues: Record<string, string>;
 	/** Maximum potential returns */
 	maxReturns: string;
+	/** Decimals of the selected input and output tokens, null until token infos load */
+	tokenDecimals: TokenDecimals | null;
 	/** Whether advanced options are shown */
 	showAdvancedOptions: boolean;
 }
 
+/**
+ * Named set of parameter values saved for comparison
+ */
+export interface Scenario {
+	id: string;
+	name: string;
+	/** Strategy the values belong to */
+	strategyKey: StrategyType;
+	/** Strategy field values, without token selections, deposits or vault IDs */
+	fieldValues: Record<string, string>;
+	/** Token decimals when the scenario was saved */
+	tokenDecimals: TokenDecimals | null;
+}
+
+/**
+ * Symbols of the strategy's first input and output tokens, null until the token is known
+ */
+export interface TokenSymbols {
+	/** Token received */
+	input: string | null;
+	/** Token sold */
+	output: string | null;
+}
+
 export interface GuiState {
-	gui: DotrainOrderGui | null;
+	/** Typed session of the initialized GUI, every GUI call goes through it */
+	session: OrderGuiSession | null;
 	selectTokens: GuiSelectTokensCfg[];
 	fieldDefinitions: GuiFieldDefinitionCfg[];
 	fieldDefinitionsWithDefaults: GuiFieldDefinitionCfg[];
@@ -175,7 +321,34 @@ export interface GuiState {
 	allTokenInfos: TokenInfo[];
 	networkKey: string;
 	isLoading: boolean;
-	error: string | null;
+	error: AppError | null;
+}
+
+/**
+ * GUI configuration read in one pass, for `guiStore.setSnapshot`
+ */
+export interface GuiSnapshot {
+	selectTokens: GuiSelectTokensCfg[];
+	networkKey: string;
+	allTokensSelected: boolean;
+	/** Only read once all tokens are selected, the deployment can't be resolved before */
+	deployment: GuiDeploymentSnapshot | null;
+}
+
+/**
+ * Parts of the GUI configuration that depend on the selected tokens
+ */
+export interface GuiDeploymentSnapshot {
+	allTokenInfos: TokenInfo[];
+	fieldDefinitions: GuiFieldDefinitionCfg[];
+	fieldDefinitionsWithDefaults: GuiFieldDefinitionCfg[];
+	deposits: GuiDepositCfg[];
+	tokenInputs: OrderIOCfg[];
+	tokenOutputs: OrderIOCfg[];
+	orderbookAddress?: Hex;
+	chainId?: number;
+	/** Whether the saved state already holds deposits or vault IDs */
+	hasDepositsOrVaultIds: boolean;
 }
 
 /**
@@ -186,6 +359,8 @@ export interface GuiInitializationResult {
 	gui: DotrainOrderGui | null;
 	/** Error message if initialization failed */
 	error: string | null;
+	/** Why saved state couldn't be restored, the GUI then starts from the deployment defaults */
+	restoreError: string | null;
 }
 
 /**
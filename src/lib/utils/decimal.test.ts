@@ -0,0 +1,127 @@
+import { describe, it, expect } from 'vitest';
+import {
+	toFixedPoint,
+	fromFixedPoint,
+	toDisplayNumber,
+	rescaleFixedPoint,
+	mulFixedPoint,
+	divFixedPoint,
+	countDecimalPlaces,
+	invertRatio,
+	toFieldValue,
+	MAX_DECIMAL_EXPONENT
+} from './decimal';
+
+describe('decimal utilities', () => {
+	describe('toFixedPoint', () => {
+		it('should scale decimal strings by the given decimals', () => {
+			expect(toFixedPoint('1.5', 6)).toBe(1500000n);
+			expect(toFixedPoint('100', 18)).toBe(100n * 10n ** 18n);
+			expect(toFixedPoint('.25', 2)).toBe(25n);
+			expect(toFixedPoint(' 3. ', 0)).toBe(3n);
+		});
+
+		it('should keep precision beyond float range', () => {
+			expect(toFixedPoint('123456789.123456789123456789', 18)).toBe(123456789123456789123456789n);
+		});
+
+		it('should truncate digits beyond the decimals', () => {
+			expect(toFixedPoint('1.23456789', 6)).toBe(1234567n);
+			expect(toFixedPoint('0.0000001', 6)).toBe(0n);
+		});
+
+		it('should accept scientific notation', () => {
+			expect(toFixedPoint('2.5e-7', 18)).toBe(250000000000n);
+			expect(toFixedPoint('1e3', 0)).toBe(1000n);
+			expect(toFixedPoint('1.000000000e-7', 8)).toBe(10n);
+		});
+
+		it('should reject exponents beyond the maximum', () => {
+			expect(toFixedPoint(`1e${MAX_DECIMAL_EXPONENT}`, 0)).toBe(
+				10n ** BigInt(MAX_DECIMAL_EXPONENT)
+			);
+			expect(toFixedPoint(`1e${MAX_DECIMAL_EXPONENT + 1}`, 0)).toBeNull();
+			expect(toFixedPoint('1e3000000', 18)).toBeNull();
+			expect(toFixedPoint('1e-3000000', 18)).toBeNull();
+			expect(toFixedPoint(`1e${'9'.repeat(400)}`, 18)).toBeNull();
+		});
+
+		it('should reject invalid and negative values', () => {
+			expect(toFixedPoint('', 18)).toBeNull();
+			expect(toFixedPoint('.', 18)).toBeNull();
+			expect(toFixedPoint('abc', 18)).toBeNull();
+			expect(toFixedPoint('-1', 18)).toBeNull();
+			expect(toFixedPoint('1.2.3', 18)).toBeNull();
+		});
+	});
+
+	describe('fromFixedPoint and toDisplayNumber', () => {
+		it('should format fixed point values exactly', () => {
+			expect(fromFixedPoint(123456789123456789123456789n, 18)).toBe('123456789.123456789123456789');
+			expect(fromFixedPoint(1500000n, 6)).toBe('1.5');
+		});
+
+		it('should convert to float for display', () => {
+			expect(toDisplayNumber(1500000n, 6)).toBe(1.5);
+		});
+	});
+
+	describe('rescaleFixedPoint', () => {
+		it('should scale up and truncate down', () => {
+			expect(rescaleFixedPoint(15n, 1, 6)).toBe(1500000n);
+			expect(rescaleFixedPoint(1999999n, 6, 0)).toBe(1n);
+		});
+	});
+
+	describe('mulFixedPoint', () => {
+		it('should multiply values with different decimals', () => {
+			const price = toFixedPoint('0.0225', 18)!;
+			const amount = toFixedPoint('1000', 18)!;
+
+			expect(mulFixedPoint(price, 18, amount, 18, 6)).toBe(22500000n);
+		});
+	});
+
+	describe('divFixedPoint', () => {
+		it('should divide values with different decimals, truncating', () => {
+			const total = toFixedPoint('22.5', 6)!;
+			const price = toFixedPoint('0.0225', 18)!;
+
+			expect(divFixedPoint(total, 6, price, 18, 18)).toBe(1000n * 10n ** 18n);
+			expect(divFixedPoint(1n, 0, 3n, 0, 2)).toBe(33n);
+			expect(divFixedPoint(1n, 0, 0n, 0, 2)).toBe(0n);
+		});
+	});
+
+	describe('countDecimalPlaces', () => {
+		it('should count significant decimal places', () => {
+			expect(countDecimalPlaces('1.2300')).toBe(2);
+			expect(countDecimalPlaces('100')).toBe(0);
+			expect(countDecimalPlaces('1e-7')).toBe(7);
+			expect(countDecimalPlaces('1.5e3')).toBe(0);
+		});
+	});
+
+	describe('toFieldValue', () => {
+		it('should round away float noise', () => {
+			expect(toFieldValue(0.1 + 0.2)).toBe('0.3');
+			expect(toFieldValue(1.05 * 3)).toBe('3.15');
+			expect(toFieldValue(100)).toBe('100');
+		});
+	});
+
+	describe('invertRatio', () => {
+		it('should invert ratios exactly to ratio decimals', () => {
+			expect(invertRatio('0.0005')).toBe('2000');
+			expect(invertRatio('4')).toBe('0.25');
+			expect(invertRatio('3')).toBe('0.333333333333333333');
+			expect(invertRatio(invertRatio('0.0005')!)).toBe('0.0005');
+		});
+
+		it('should return null for zero or invalid ratios', () => {
+			expect(invertRatio('0')).toBeNull();
+			expect(invertRatio('')).toBeNull();
+			expect(invertRatio('abc')).toBeNull();
+		});
+	});
+});
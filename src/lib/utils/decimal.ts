@@ -0,0 +1,147 @@
+import { formatUnits } from 'viem';
+import type { TokenDecimals } from '$lib/strategies';
+
+/**
+ * Decimals used for io ratios, matching Rainlang's 18 decimal fixed point
+ */
+export const RATIO_DECIMALS = 18;
+
+/**
+ * Decimals assumed when a token's info has not loaded yet
+ */
+export const DEFAULT_TOKEN_DECIMALS = 18;
+
+/**
+ * Resolve token decimals, assuming the default for tokens whose info has not loaded yet
+ */
+export function resolveTokenDecimals(decimals?: TokenDecimals): TokenDecimals {
+	return {
+		input: decimals?.input ?? DEFAULT_TOKEN_DECIMALS,
+		output: decimals?.output ?? DEFAULT_TOKEN_DECIMALS
+	};
+}
+
+const DECIMAL_PATTERN = /^(\d*)(?:\.(\d*))?(?:e([+-]?\d+))?$/i;
+
+/**
+ * Largest exponent accepted in scientific notation. No token amount or ratio comes close, and
+ * larger exponents would scale the result to arbitrarily large integers.
+ */
+export const MAX_DECIMAL_EXPONENT = 100;
+
+/**
+ * Parse a decimal string into a fixed point integer
+ *
+ * Digits beyond `decimals` are truncated, the same way the orderbook drops dust it cannot
+ * represent. Scientific notation is accepted so values produced by `toPrecision` round trip, with
+ * exponents up to `MAX_DECIMAL_EXPONENT`.
+ * @param value - Non-negative decimal string, e.g. "1.5" or "2.5e-7"
+ * @param decimals - Number of decimals of the fixed point representation
+ * @returns Scaled integer, or null when the value is not a valid non-negative number
+ */
+export function toFixedPoint(value: string, decimals: number): bigint | null {
+	const match = DECIMAL_PATTERN.exec((value ?? '').trim());
+	if (!match) return null;
+
+	const [, whole = '', fraction = '', exponent = '0'] = match;
+	if (whole === '' && fraction === '') return null;
+	if (Math.abs(Number(exponent)) > MAX_DECIMAL_EXPONENT) return null;
+
+	const digits = `${whole}${fraction}`;
+	const shift = decimals - fraction.length + Number(exponent);
+
+	if (shift >= 0) {
+		return BigInt(digits) * 10n ** BigInt(shift);
+	}
+
+	const kept = digits.slice(0, Math.max(0, digits.length + shift));
+	return kept === '' ? 0n : BigInt(kept);
+}
+
+/**
+ * Format a fixed point integer as an exact decimal string
+ */
+export function fromFixedPoint(value: bigint, decimals: number): string {
+	return formatUnits(value, decimals);
+}
+
+/**
+ * Convert a fixed point integer to a float for display only
+ */
+export function toDisplayNumber(value: bigint, decimals: number): number {
+	return Number(formatUnits(value, decimals));
+}
+
+/**
+ * Change the number of decimals of a fixed point integer, truncating when reducing
+ */
+export function rescaleFixedPoint(value: bigint, fromDecimals: number, toDecimals: number): bigint {
+	if (toDecimals >= fromDecimals) {
+		return value * 10n ** BigInt(toDecimals - fromDecimals);
+	}
+
+	return value / 10n ** BigInt(fromDecimals - toDecimals);
+}
+
+/**
+ * Multiply two fixed point integers, truncating the product to `resultDecimals`
+ */
+export function mulFixedPoint(
+	a: bigint,
+	aDecimals: number,
+	b: bigint,
+	bDecimals: number,
+	resultDecimals: number
+): bigint {
+	return rescaleFixedPoint(a * b, aDecimals + bDecimals, resultDecimals);
+}
+
+/**
+ * Divide two fixed point integers, truncating the quotient to `resultDecimals`
+ */
+export function divFixedPoint(
+	a: bigint,
+	aDecimals: number,
+	b: bigint,
+	bDecimals: number,
+	resultDecimals: number
+): bigint {
+	if (b === 0n) return 0n;
+
+	return (a * 10n ** BigInt(bDecimals + resultDecimals)) / (b * 10n ** BigInt(aDecimals));
+}
+
+/**
+ * Count the decimal places a value is written with, ignoring trailing zeros
+ */
+export function countDecimalPlaces(value: string): number {
+	const match = DECIMAL_PATTERN.exec((value ?? '').trim());
+	if (!match) return 0;
+
+	const fraction = (match[2] ?? '').replace(/0+$/, '');
+	return Math.max(0, fraction.length - Number(match[3] ?? '0'));
+}
+
+/**
+ * Round a computed number so it can be entered as a field value without float noise
+ */
+export function toFieldValue(value: number): string {
+	return Number(value.toPrecision(10)).toString();
+}
+
+/**
+ * Invert an io ratio exactly, turning input-per-output into output-per-input and back
+ *
+ * The result keeps `RATIO_DECIMALS` decimals, truncating anything beyond.
+ * @param value - Non-negative decimal string
+ * @returns Inverted ratio, or null when the value is not a valid positive number
+ */
+export function invertRatio(value: string): string | null {
+	const ratio = toFixedPoint(value, RATIO_DECIMALS);
+	if (ratio === null || ratio === 0n) return null;
+
+	return fromFixedPoint(
+		divFixedPoint(1n, 0, ratio, RATIO_DECIMALS, RATIO_DECIMALS),
+		RATIO_DECIMALS
+	);
+}
@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import { ERROR_DEFINITIONS, createAppError, isAppError, toAppError } from './errors';
+
+function namedError(name: string, message: string, cause?: unknown): Error {
+	const error = new Error(message, { cause });
+	error.name = name;
+	return error;
+}
+
+describe('Errors', () => {
+	describe('createAppError', () => {
+		it('should fill in the category, message and recovery of the code', () => {
+			expect(createAppError('RPC_TIMEOUT')).toEqual({
+				code: 'RPC_TIMEOUT',
+				category: 'rpc',
+				message: ERROR_DEFINITIONS.RPC_TIMEOUT.message,
+				details: null,
+				recovery: ['retry']
+			});
+		});
+
+		it('should accept a specific message and details', () => {
+			const error = createAppError('WRONG_CHAIN', {
+				message: 'Switch to Flare',
+				details: 'Chain 1 != 14'
+			});
+
+			expect(error.message).toBe('Switch to Flare');
+			expect(error.details).toBe('Chain 1 != 14');
+			expect(error.recovery).toContain('switch-network');
+		});
+	});
+
+	describe('toAppError', () => {
+		it.each([
+			[
+				'a viem rejection',
+				namedError('UserRejectedRequestError', 'Request rejected'),
+				'WALLET_REJECTED'
+			],
+			[
+				'a denied signature',
+				new Error('MetaMask Tx Signature: User denied transaction signature.'),
+				'WALLET_REJECTED'
+			],
+			['a chain mismatch', namedError('ChainMismatchError', 'Chain mismatch'), 'WRONG_CHAIN'],
+			['a timeout', new Error('Request timed out after 10000ms'), 'RPC_TIMEOUT'],
+			['an HTTP failure', namedError('HttpRequestError', 'HTTP request failed.'), 'RPC_ERROR'],
+			['a GUI error', namedError('GuiSessionError', 'Missing deposit token'), 'GUI_ERROR'],
+			['a re-entrant GUI call', new Error('recursive use of an object detected'), 'GUI_BUSY']
+		])('should classify %s', (_, error, code) => {
+			expect(toAppError(error).code).toBe(code);
+		});
+
+		it('should look through the cause chain', () => {
+			const wrapped = new Error('Deployment failed: Request rejected', {
+				cause: namedError('UserRejectedRequestError', 'Request rejected')
+			});
+
+			expect(toAppError(wrapped).code).toBe('WALLET_REJECTED');
+		});
+
+		it('should keep the original message as details', () => {
+			const error = toAppError(namedError('GuiSessionError', 'Missing deposit token'));
+
+			expect(error.message).toBe(ERROR_DEFINITIONS.GUI_ERROR.message);
+			expect(error.details).toBe('Missing deposit token');
+		});
+
+		it('should use the fallback code and message for unrecognised errors', () => {
+			const error = toAppError(new Error('boom'), 'GUI_ERROR', 'Token selection failed');
+
+			expect(error.code).toBe('GUI_ERROR');
+			expect(error.message).toBe('Token selection failed');
+			expect(error.details).toBe('boom');
+		});
+
+		it('should handle non-Error values', () => {
+			expect(toAppError('plain text').details).toBe('plain text');
+			expect(toAppError(undefined)).toEqual(createAppError('UNKNOWN'));
+		});
+
+		it('should return existing app errors unchanged', () => {
+			const error = createAppError('VALIDATION_FAILED');
+
+			expect(isAppError(error)).toBe(true);
+			expect(toAppError(error)).toBe(error);
+		});
+	});
+});
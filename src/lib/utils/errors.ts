@@ -0,0 +1,180 @@
+import type { AppError, AppErrorCategory, AppErrorCode, RecoveryAction } from '$lib/types';
+
+interface ErrorDefinition {
+	category: AppErrorCategory;
+	message: string;
+	recovery: RecoveryAction[];
+}
+
+/**
+ * Category, default message and recovery actions for each error code
+ */
+export const ERROR_DEFINITIONS: Record<AppErrorCode, ErrorDefinition> = {
+	WALLET_REJECTED: {
+		category: 'wallet-rejected',
+		message: 'The request was rejected in your wallet.',
+		recovery: ['retry']
+	},
+	WALLET_UNAVAILABLE: {
+		category: 'wallet-rejected',
+		message: 'Your wallet is not connected.',
+		recovery: ['reconnect-wallet']
+	},
+	WRONG_CHAIN: {
+		category: 'wrong-chain',
+		message: 'Your wallet is connected to a different network than this deployment.',
+		recovery: ['switch-network', 'retry']
+	},
+	GUI_ERROR: {
+		category: 'wasm',
+		message: 'The strategy could not process this configuration.',
+		recovery: ['review-form', 'retry', 'reload']
+	},
+	GUI_BUSY: {
+		category: 'wasm',
+		message: 'The strategy is still processing the previous change. Please wait and try again.',
+		recovery: ['retry']
+	},
+	RPC_TIMEOUT: {
+		category: 'rpc',
+		message: 'The network took too long to respond.',
+		recovery: ['retry']
+	},
+	RPC_ERROR: {
+		category: 'rpc',
+		message: 'The network request failed.',
+		recovery: ['retry']
+	},
+	VALIDATION_FAILED: {
+		category: 'validation',
+		message: 'Some values need attention before continuing.',
+		recovery: ['review-form']
+	},
+	UNKNOWN: {
+		category: 'unknown',
+		message: 'Something went wrong.',
+		recovery: ['retry', 'reload']
+	}
+};
+
+/**
+ * Short instruction for each recovery action
+ */
+export const RECOVERY_LABELS: Record<RecoveryAction, string> = {
+	retry: 'Try again',
+	'reconnect-wallet': 'Reconnect your wallet',
+	'switch-network': 'Switch your wallet to the deployment network',
+	'review-form': 'Review the highlighted values',
+	reload: 'Reload the page'
+};
+
+/**
+ * Create an error from its code
+ * @param code - Error code
+ * @param options - Message replacing the default one, and the original error text
+ * @returns Error with the code's category and recovery actions
+ */
+export function createAppError(
+	code: AppErrorCode,
+	options: { message?: string; details?: string | null } = {}
+): AppError {
+	const definition = ERROR_DEFINITIONS[code];
+
+	return {
+		code,
+		category: definition.category,
+		message: options.message ?? definition.message,
+		details: options.details ?? null,
+		recovery: definition.recovery
+	};
+}
+
+/**
+ * Classify a thrown value
+ *
+ * Wallet, chain and network errors are recognised by name or message anywhere in the `cause`
+ * chain, GUI errors by their `GuiSessionError` name or a re-entrant call. Anything else gets the fallback code.
+ * @param error - Thrown value, or an existing `AppError` which is returned as is
+ * @param fallback - Code for errors that match no category
+ * @param message - Message replacing the default one of the fallback code
+ * @returns Classified error, with the original message as details
+ */
+export function toAppError(
+	error: unknown,
+	fallback: AppErrorCode = 'UNKNOWN',
+	message?: string
+): AppError {
+	if (isAppError(error)) return error;
+
+	const details = error instanceof Error ? error.message : typeof error === 'string' ? error : null;
+	const code = classifyError(error);
+
+	return code ? createAppError(code, { details }) : createAppError(fallback, { message, details });
+}
+
+/**
+ * Whether a value already is an `AppError`
+ */
+export function isAppError(value: unknown): value is AppError {
+	return (
+		typeof value === 'object' &&
+		value !== null &&
+		'code' in value &&
+		'category' in value &&
+		'recovery' in value
+	);
+}
+
+const WALLET_REJECTED_PATTERN = /user (rejected|denied)|rejected the request/i;
+const WRONG_CHAIN_PATTERN = /chain mismatch|does not match the target chain/i;
+const TIMEOUT_PATTERN = /timed? ?out/i;
+const GUI_BUSY_PATTERN = /recursive use of an object/i;
+const RPC_PATTERN = /http request failed|fetch failed|network error|rpc request failed/i;
+
+function classifyError(error: unknown): AppErrorCode | null {
+	for (const cause of getCauses(error)) {
+		if (
+			cause.name === 'UserRejectedRequestError' ||
+			(cause as { code?: unknown }).code === 4001 ||
+			WALLET_REJECTED_PATTERN.test(cause.message)
+		) {
+			return 'WALLET_REJECTED';
+		}
+		if (cause.name === 'ChainMismatchError' || WRONG_CHAIN_PATTERN.test(cause.message)) {
+			return 'WRONG_CHAIN';
+		}
+		if (cause.name === 'TimeoutError' || TIMEOUT_PATTERN.test(cause.message)) {
+			return 'RPC_TIMEOUT';
+		}
+		if (
+			cause.name === 'HttpRequestError' ||
+			cause.name === 'RpcRequestError' ||
+			RPC_PATTERN.test(cause.message)
+		) {
+			return 'RPC_ERROR';
+		}
+		if (GUI_BUSY_PATTERN.test(cause.message)) {
+			return 'GUI_BUSY';
+		}
+		if (cause.name === 'GuiSessionError') {
+			return 'GUI_ERROR';
+		}
+	}
+
+	return null;
+}
+
+/**
+ * The error and its causes, outermost first
+ */
+function getCauses(error: unknown): Error[] {
+	const causes: Error[] = [];
+
+	let current = error;
+	while (current instanceof Error && !causes.includes(current)) {
+		causes.push(current);
+		current = current.cause;
+	}
+
+	return causes;
+}
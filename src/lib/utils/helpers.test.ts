@@ -7,6 +7,9 @@ import {
 	getNetworkConfig,
 	formatAddress,
 	formatNumber,
+	formatTokenAmount,
+	toDisplayPrice,
+	formatPriceUnit,
 	debounce,
 	isValidAddress,
 	createExplorerUrl,
@@ -160,6 +163,42 @@ describe('Helper Functions', () => {
 		});
 	});
 
+	describe('formatTokenAmount', () => {
+		it('should follow the amount with the token symbol', () => {
+			expect(formatTokenAmount(12.5, 'USDC')).toBe('12.50 USDC');
+		});
+
+		it('should leave out an unknown symbol', () => {
+			expect(formatTokenAmount(12.5, null, 4)).toBe('12.5000');
+		});
+	});
+
+	describe('toDisplayPrice', () => {
+		it('should return the ratio unless inverted', () => {
+			expect(toDisplayPrice(0.0005, false)).toBe(0.0005);
+			expect(toDisplayPrice(0.0005, true)).toBeCloseTo(2000);
+		});
+
+		it('should keep zero when inverted', () => {
+			expect(toDisplayPrice(0, true)).toBe(0);
+		});
+	});
+
+	describe('formatPriceUnit', () => {
+		it('should quote input per output unless inverted', () => {
+			const symbols = { input: 'USDC', output: 'WFLR' };
+
+			expect(formatPriceUnit(symbols, false)).toBe('USDC per WFLR');
+			expect(formatPriceUnit(symbols, true)).toBe('WFLR per USDC');
+		});
+
+		it('should fall back to generic names for unknown tokens', () => {
+			expect(formatPriceUnit({ input: null, output: null }, false)).toBe(
+				'input token per output token'
+			);
+		});
+	});
+
 	describe('debounce', () => {
 		beforeEach(() => {
 			vi.useFakeTimers();
@@ -54,6 +54,44 @@ export function formatNumber(value: number, decimals = 2): string {
 	return value.toFixed(decimals);
 }
 
+/**
+ * Format a token amount followed by its symbol
+ * @param value - Amount to format
+ * @param symbol - Token symbol, left out when unknown
+ * @param decimals - Number of decimal places (default: 2)
+ * @returns Formatted amount, e.g. "12.50 USDC"
+ */
+export function formatTokenAmount(value: number, symbol: string | null, decimals = 2): string {
+	const amount = formatNumber(value, decimals);
+	return symbol ? `${amount} ${symbol}` : amount;
+}
+
+/**
+ * Convert an io ratio to the price shown to the user
+ * @param ratio - Price as input token per output token
+ * @param inverted - Whether prices are shown as output token per input token
+ * @returns The ratio, or its reciprocal when inverted. Zero stays zero.
+ */
+export function toDisplayPrice(ratio: number, inverted: boolean): number {
+	if (!inverted || ratio === 0) return ratio;
+	return 1 / ratio;
+}
+
+/**
+ * Describe the unit prices are shown in
+ * @param symbols - Symbols of the input and output tokens, null when unknown
+ * @param inverted - Whether prices are shown as output token per input token
+ * @returns Unit such as "USDC per WFLR"
+ */
+export function formatPriceUnit(
+	symbols: { input: string | null; output: string | null },
+	inverted: boolean
+): string {
+	const input = symbols.input ?? 'input token';
+	const output = symbols.output ?? 'output token';
+	return inverted ? `${output} per ${input}` : `${input} per ${output}`;
+}
+
 /**
  * Enhanced debounce function with better error handling
  * @param func - Function to debounce
@@ -0,0 +1,44 @@
+import { describe, it, expect, vi } from 'vitest';
+import { readStoredJson, writeStoredJson, type KeyValueStorage } from './storage';
+
+function createStorage(): KeyValueStorage {
+	const items = new Map<string, string>();
+	return {
+		getItem: (key) => items.get(key) ?? null,
+		setItem: (key, value) => void items.set(key, value)
+	};
+}
+
+describe('storage', () => {
+	it('should read back a saved value', () => {
+		const storage = createStorage();
+
+		writeStoredJson(storage, 'scenarios', [{ name: 'Wide' }]);
+
+		expect(readStoredJson(storage, 'scenarios', [])).toEqual([{ name: 'Wide' }]);
+	});
+
+	it('should fall back when nothing or something unreadable is saved', () => {
+		const storage = createStorage();
+		const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+		expect(readStoredJson(storage, 'scenarios', [])).toEqual([]);
+		storage.setItem('scenarios', '{not json');
+		expect(readStoredJson(storage, 'scenarios', [])).toEqual([]);
+		expect(readStoredJson(null, 'scenarios', [])).toEqual([]);
+		consoleSpy.mockRestore();
+	});
+
+	it('should not throw when storage is full', () => {
+		const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+		const storage: KeyValueStorage = {
+			getItem: () => null,
+			setItem: () => {
+				throw new Error('QuotaExceededError');
+			}
+		};
+
+		expect(() => writeStoredJson(storage, 'scenarios', [])).not.toThrow();
+		consoleSpy.mockRestore();
+	});
+});
@@ -0,0 +1,53 @@
+import { browser } from '$app/environment';
+
+/**
+ * Part of `Storage` used to keep data between visits
+ */
+export type KeyValueStorage = Pick<Storage, 'getItem' | 'setItem'>;
+
+/**
+ * Local storage of the browser, or null while rendering on the server or when it is blocked
+ */
+export function getLocalStorage(): KeyValueStorage | null {
+	if (!browser) return null;
+
+	try {
+		return window.localStorage;
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Read a JSON value saved with `writeStoredJson`
+ * @param storage - Storage to read from, nothing is read when null
+ * @param key - Storage key
+ * @param fallback - Value returned when nothing is saved or the saved value can't be parsed
+ */
+export function readStoredJson<T>(storage: KeyValueStorage | null, key: string, fallback: T): T {
+	try {
+		const stored = storage?.getItem(key);
+		return stored ? (JSON.parse(stored) as T) : fallback;
+	} catch (error) {
+		console.error(`Failed to read '${key}' from storage:`, error);
+		return fallback;
+	}
+}
+
+/**
+ * Save a value as JSON, logging instead of throwing when storage is full or blocked
+ * @param storage - Storage to write to, nothing is written when null
+ * @param key - Storage key
+ * @param value - Value to save
+ */
+export function writeStoredJson(
+	storage: KeyValueStorage | null,
+	key: string,
+	value: unknown
+): void {
+	try {
+		storage?.setItem(key, JSON.stringify(value));
+	} catch (error) {
+		console.error(`Failed to save '${key}' to storage:`, error);
+	}
+}
@@ -26,6 +26,7 @@ export const createMockTokenInfo = (overrides = {}) => ({
 
 export const createMockGridLevel = (overrides = {}) => ({
 	level: 1,
+	side: 'sell' as const,
 	price: 100,
 	total: 1000,
 	amount: 10,
@@ -143,12 +144,13 @@ export const createMockStrategyStore = () => ({
 	selectedDeployment: 'ethereum',
 	fieldValues: {},
 	maxReturns: '0',
+	tokenDecimals: null,
 	allTokensSelected: false,
 	showAdvancedOptions: false
 });
 
 export const createMockGuiStore = () => ({
-	gui: null,
+	session: null,
 	isLoading: false,
 	error: null,
 	selectTokens: [],
@@ -211,10 +213,12 @@ export const renderWithMocks = <T extends SvelteComponent>(
 				...createMockWritableStore({
 					isValid: false,
 					errors: {},
-					isValidating: false
+					isValidating: false,
+					onchainErrors: {},
+					warnings: {}
 				}),
 				setValidation: vi.fn(function (this: any, isValid, errors = {}) {
-					this.set({ isValid, errors, isValidating: false });
+					this.set({ isValid, errors, isValidating: false, onchainErrors: {}, warnings: {} });
 				}),
 				clearFieldErrors: vi.fn(function (this: any, field) {
 					this.update((state: any) => {
@@ -231,7 +235,13 @@ export const renderWithMocks = <T extends SvelteComponent>(
 					});
 				}),
 				reset: vi.fn(function (this: any) {
-					this.set({ isValid: false, errors: {}, isValidating: false });
+					this.set({
+						isValid: false,
+						errors: {},
+						isValidating: false,
+						onchainErrors: {},
+						warnings: {}
+					});
 				})
 			},
 			canSubmit: createMockWritableStore(false),
@@ -1,12 +1,14 @@
 import { describe, it, expect, beforeEach } from 'vitest';
+import { z } from 'zod';
 import { DynamicSchemaBuilder } from './DynamicSchemaBuilder';
 import type { FieldMetadata } from '$lib/types';
-import type { StrategyConfig } from '$lib/strategies';
+import { GridStrategyConfig, type StrategyConfig } from '$lib/strategies';
 
 class MockStrategyConfig implements StrategyConfig {
 	name = 'MockStrategy';
 	description = 'Mock strategy for testing';
 	version = '1.0.0';
+	sourceUrl = 'https://example.com/mock.rain';
 
 	private mockFields: FieldMetadata[] = [
 		{
@@ -54,6 +56,8 @@ class MockStrategyConfig implements StrategyConfig {
 		return this.mockFields;
 	}
 
+	setFieldDefinitions() {}
+
 	setAllFieldMetadata(fields: FieldMetadata[]) {
 		this.mockFields = fields;
 	}
@@ -318,6 +322,174 @@ describe('DynamicSchemaBuilder', () => {
 		});
 	});
 
+	describe('Cross-Field Rules', () => {
+		const rangeFields: FieldMetadata[] = [
+			{
+				binding: 'min-amount',
+				inputType: 'number',
+				placeholder: 'Enter number',
+				helpText: 'Lower bound',
+				validation: {
+					required: false,
+					rules: [{ operator: 'lte', field: 'max-amount', message: 'Min must not exceed max' }]
+				}
+			},
+			{
+				binding: 'max-amount',
+				inputType: 'number',
+				placeholder: 'Enter number',
+				helpText: 'Upper bound',
+				validation: {
+					required: false,
+					rules: [
+						{
+							operator: 'lte',
+							field: 'deposits.output',
+							when: [{ field: 'mode', operator: 'eq', value: 'funded' }],
+							message: 'Deposit must cover the max'
+						}
+					]
+				}
+			},
+			{
+				binding: 'mode',
+				inputType: 'text',
+				placeholder: 'Enter mode',
+				helpText: 'Mode',
+				defaultValue: 'funded',
+				validation: { required: false }
+			}
+		];
+
+		beforeEach(() => {
+			mockStrategy.setAllFieldMetadata(rangeFields);
+		});
+
+		it('should report a failing rule on the field declaring it', () => {
+			const schema = DynamicSchemaBuilder.buildSchemaForStrategy(mockStrategy);
+			const result = schema.safeParse({
+				parameters: { 'min-amount': '10', 'max-amount': '5' }
+			});
+
+			expect(result.success).toBe(false);
+			if (!result.success) {
+				expect(result.error.issues).toEqual([
+					expect.objectContaining({
+						path: ['parameters', 'min-amount'],
+						message: 'Min must not exceed max'
+					})
+				]);
+			}
+		});
+
+		it('should skip rules while either value is empty', () => {
+			const schema = DynamicSchemaBuilder.buildSchemaForStrategy(mockStrategy);
+
+			expect(schema.safeParse({ parameters: { 'min-amount': '10' } }).success).toBe(true);
+		});
+
+		it('should compare with deposits through the token keys', () => {
+			const schema = DynamicSchemaBuilder.buildSchemaForStrategy(mockStrategy, {
+				input: 'usdc',
+				output: 'wflr'
+			});
+
+			expect(
+				schema.safeParse({ parameters: { 'max-amount': '5' }, deposits: { wflr: '4.5' } }).success
+			).toBe(false);
+			expect(
+				schema.safeParse({ parameters: { 'max-amount': '5' }, deposits: { wflr: '5' } }).success
+			).toBe(true);
+		});
+
+		it('should only apply rules whose conditions hold, using field defaults', () => {
+			const schema = DynamicSchemaBuilder.buildSchemaForStrategy(mockStrategy, {
+				input: 'usdc',
+				output: 'wflr'
+			});
+
+			expect(
+				schema.safeParse({
+					parameters: { 'max-amount': '5', mode: 'unfunded' },
+					deposits: { wflr: '1' }
+				}).success
+			).toBe(true);
+		});
+	});
+
+	describe('buildFormSchema', () => {
+		const tokenKeys = { input: 'usdc', output: 'wflr' };
+		const gridValues = {
+			parameters: {
+				'baseline-io-ratio': '1',
+				'io-ratio-growth': '0.01',
+				'tranche-size': '10',
+				'level-count': '5'
+			},
+			deposits: { wflr: '20' }
+		};
+
+		it("should apply the strategy's own checks, such as the deposit covering every level", () => {
+			const grid = new GridStrategyConfig();
+
+			expect(
+				DynamicSchemaBuilder.buildSchemaForStrategy(grid, tokenKeys).safeParse(gridValues).success
+			).toBe(true);
+
+			const result = DynamicSchemaBuilder.buildFormSchema(grid, tokenKeys, {
+				input: 6,
+				output: 18
+			}).safeParse(gridValues);
+
+			expect(result.success).toBe(false);
+			if (!result.success) {
+				expect(result.error.issues).toEqual([
+					expect.objectContaining({
+						path: ['deposits', 'wflr'],
+						message: 'Deposit must cover all 5 grid levels (at least 50)'
+					})
+				]);
+			}
+		});
+
+		it('should check amounts against the token decimals', () => {
+			const schema = DynamicSchemaBuilder.buildFormSchema(new GridStrategyConfig(), tokenKeys, {
+				input: 6,
+				output: 2
+			});
+
+			const result = schema.safeParse({
+				...gridValues,
+				parameters: { ...gridValues.parameters, 'tranche-size': '10.001' },
+				deposits: { wflr: '100' }
+			});
+
+			expect(result.success).toBe(false);
+			if (!result.success) {
+				expect(result.error.issues.map((issue) => issue.path.join('.'))).toContain(
+					'parameters.tranche-size'
+				);
+			}
+		});
+
+		it('should keep only the strategy messages for a field both schemas flag', () => {
+			const strategy: StrategyConfig = new MockStrategyConfig();
+			strategy.getValidationSchema = () =>
+				z.object({
+					parameters: z.object({ 'required-number': z.string().min(1, 'Enter a number') })
+				});
+
+			const result = DynamicSchemaBuilder.buildFormSchema(strategy).safeParse({
+				parameters: { 'required-number': '', 'required-text': 'value' }
+			});
+
+			expect(result.success).toBe(false);
+			if (!result.success) {
+				expect(result.error.issues.map((issue) => issue.message)).toEqual(['Enter a number']);
+			}
+		});
+	});
+
 	describe('validateField', () => {
 		it('should validate individual field correctly', () => {
 			const errors = DynamicSchemaBuilder.validateField(mockStrategy, 'required-number', '50');
@@ -1,6 +1,15 @@
 import { z } from 'zod';
-import type { StrategyConfig } from '$lib/strategies/base/types';
-import type { FieldMetadata } from '$lib/types';
+import type { StrategyConfig, TokenDecimals, TokenKeys } from '$lib/strategies/base/types';
+import type { FieldComparison, FieldCondition, FieldMetadata, FieldRule } from '$lib/types';
+import { RATIO_DECIMALS, toFixedPoint } from '$lib/utils/decimal';
+
+/**
+ * Form values the cross-field rules read from
+ */
+interface RuleValues {
+	parameters: Record<string, string | undefined>;
+	deposits?: Record<string, string | undefined>;
+}
 
 /**
  * Dynamic schema builder that creates validation schemas based on strategy configuration
@@ -8,75 +17,177 @@ import type { FieldMetadata } from '$lib/types';
 export class DynamicSchemaBuilder {
 	/**
 	 * Build a validation schema for a given strategy
+	 * @param tokenKeys - When given, rules can refer to `deposits.input` and `deposits.output`
 	 */
-	static buildSchemaForStrategy(strategy: StrategyConfig) {
+	static buildSchemaForStrategy(strategy: StrategyConfig, tokenKeys?: TokenKeys) {
 		const fieldMetadata = strategy.getAllFieldMetadata();
-		const parameterSchemas: Record<string, z.ZodSchema> = {};
+		const parameterSchemas: Record<string, z.ZodTypeAny> = {};
 
 		fieldMetadata.forEach((field) => {
 			parameterSchemas[field.binding] = this.buildFieldSchema(field);
 		});
 
-		return z.object({
-			parameters: z.object(parameterSchemas)
+		return z
+			.object({
+				parameters: z.object(parameterSchemas),
+				deposits: z.record(z.string(), z.string().optional()).optional()
+			})
+			.superRefine((values, ctx) => {
+				this.addRuleIssues(fieldMetadata, values as RuleValues, tokenKeys, ctx);
+			});
+	}
+
+	/**
+	 * Build the schema the deployment form validates with
+	 *
+	 * Combines the strategy's own schema, which knows the token decimals and cross-parameter checks
+	 * such as the deposit covering every level, with the schema built from the field metadata.
+	 * When both flag a field, only the strategy's messages are kept.
+	 * @param tokenKeys - Keys of the input and output tokens, once both are selected
+	 * @param decimals - Decimals of the input and output tokens, once known
+	 */
+	static buildFormSchema(
+		strategy: StrategyConfig,
+		tokenKeys?: TokenKeys,
+		decimals?: TokenDecimals
+	) {
+		const schemas = [
+			strategy.getValidationSchema(decimals, tokenKeys),
+			this.buildSchemaForStrategy(strategy, tokenKeys)
+		];
+
+		return z.unknown().superRefine((values, ctx) => {
+			const flaggedPaths = new Set<string>();
+
+			schemas.forEach((schema) => {
+				const result = schema.safeParse(values);
+				if (result.success) return;
+
+				const issues = result.error.issues.filter(
+					(issue) => !flaggedPaths.has(issue.path.join('.'))
+				);
+				issues.forEach((issue) => {
+					ctx.addIssue({ code: z.ZodIssueCode.custom, path: issue.path, message: issue.message });
+				});
+				issues.forEach((issue) => flaggedPaths.add(issue.path.join('.')));
+			});
 		});
 	}
 
 	/**
 	 * Build a schema for a single field based on its metadata
-	 * Fixed: Properly typed field parameter
 	 */
-	private static buildFieldSchema(
-		field: FieldMetadata
-	): z.ZodString | z.ZodEffects<z.ZodString, string, string> | z.ZodOptional<z.ZodString> {
-		let schema:
-			| z.ZodString
-			| z.ZodEffects<z.ZodString, string, string>
-			| z.ZodOptional<z.ZodString> = z.string();
-
-		if (field.validation?.required) {
+	private static buildFieldSchema(field: FieldMetadata): z.ZodTypeAny {
+		const isRequired = field.validation?.required ?? false;
+		let schema = z.string();
+
+		if (isRequired) {
 			schema = schema.min(1, `${field.binding} is required`);
 		}
 
-		if (field.inputType === 'number') {
-			schema.refine((val) => {
-				if (!field.validation?.required && (!val || val.trim() === '')) {
-					return true;
-				}
+		const checked = schema.superRefine((val, ctx) => {
+			if (field.inputType !== 'number' || !val || val.trim() === '') return;
 
-				const num = parseFloat(val);
-				return !isNaN(num);
-			}, `Must be a valid number`);
+			const num = Number(val.trim());
+			if (isNaN(num)) {
+				ctx.addIssue({
+					code: z.ZodIssueCode.custom,
+					message: field.validation?.customMessage || 'Must be a valid number'
+				});
+				return;
+			}
 
-			if (field.min !== undefined) {
-				schema.refine((val) => {
-					if (!val || val.trim() === '') return !field.validation?.required;
-					return parseFloat(val) >= parseFloat(field.min!);
-				}, `Must be at least ${field.min}`);
+			if (field.min !== undefined && num < Number(field.min)) {
+				ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Must be at least ${field.min}` });
 			}
 
-			if (field.max !== undefined) {
-				schema.refine((val) => {
-					if (!val || val.trim() === '') return !field.validation?.required;
-					return parseFloat(val) <= parseFloat(field.max!);
-				}, `Must be at most ${field.max}`);
+			if (field.max !== undefined && num > Number(field.max)) {
+				ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Must be at most ${field.max}` });
 			}
+		});
+
+		if (!isRequired) {
+			return checked.optional();
 		}
 
-		if (field.validation?.customMessage) {
-			schema.refine((val) => {
-				if (!field.validation?.required && (!val || val.trim() === '')) {
-					return true;
+		return checked.transform((val) => val || '');
+	}
+
+	/**
+	 * Report every cross-field rule that fails, on the field declaring it
+	 */
+	private static addRuleIssues(
+		fieldMetadata: FieldMetadata[],
+		values: RuleValues,
+		tokenKeys: TokenKeys | undefined,
+		ctx: z.RefinementCtx
+	) {
+		const resolve = (binding: string) =>
+			this.resolveValue(binding, fieldMetadata, values, tokenKeys);
+
+		fieldMetadata.forEach((field) => {
+			(field.validation?.rules || []).forEach((rule: FieldRule) => {
+				const conditionsHold = (rule.when || []).every((condition: FieldCondition) =>
+					this.compare(resolve(condition.field), condition.operator, condition.value)
+				);
+				if (!conditionsHold) return;
+
+				const value = resolve(field.binding);
+				const other = rule.field !== undefined ? resolve(rule.field) : (rule.value ?? '');
+				if (value === '' || other === '') return;
+
+				if (this.compare(value, rule.operator, other) === false) {
+					ctx.addIssue({
+						code: z.ZodIssueCode.custom,
+						path: ['parameters', field.binding],
+						message: rule.message
+					});
 				}
-				return true;
-			}, field.validation.customMessage);
-		}
+			});
+		});
+	}
 
-		if (!field.validation?.required) {
-			return schema.optional();
+	/**
+	 * Value of a field, falling back to its default, or of the input or output deposit
+	 */
+	private static resolveValue(
+		binding: string,
+		fieldMetadata: FieldMetadata[],
+		values: RuleValues,
+		tokenKeys: TokenKeys | undefined
+	): string {
+		if (binding === 'deposits.input' || binding === 'deposits.output') {
+			const tokenKey = tokenKeys?.[binding === 'deposits.input' ? 'input' : 'output'];
+			return (tokenKey && values.deposits?.[tokenKey]?.trim()) || '';
 		}
 
-		return schema.transform((val) => val || '');
+		const value = values.parameters?.[binding]?.trim();
+		if (value) return value;
+
+		return fieldMetadata.find((field) => field.binding === binding)?.defaultValue ?? '';
+	}
+
+	/**
+	 * Compare two values, as text for `eq` and as exact decimals otherwise
+	 * @returns Whether the comparison holds, null when a value is not a number
+	 */
+	private static compare(a: string, operator: FieldComparison, b: string): boolean | null {
+		if (operator === 'eq') return a === b;
+
+		const left = parseSignedDecimal(a);
+		const right = parseSignedDecimal(b);
+		if (left === null || right === null) return null;
+
+		switch (operator) {
+			case 'gt':
+				return left > right;
+			case 'gte':
+				return left >= right;
+			case 'lt':
+				return left < right;
+			case 'lte':
+				return left <= right;
+		}
 	}
 
 	/**
@@ -96,3 +207,13 @@ export class DynamicSchemaBuilder {
 		return result.error.issues.map((issue) => issue.message);
 	}
 }
+
+/**
+ * Parse a decimal that may be negative, with `RATIO_DECIMALS` decimals
+ */
+function parseSignedDecimal(value: string): bigint | null {
+	if (!value.startsWith('-')) return toFixedPoint(value, RATIO_DECIMALS);
+
+	const magnitude = toFixedPoint(value.slice(1), RATIO_DECIMALS);
+	return magnitude === null ? null : -magnitude;
+}